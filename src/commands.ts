@@ -0,0 +1,59 @@
+/**
+ * Commands the server executes on `workspace/executeCommand`.
+ */
+export enum Command {
+    RestartService = 'rtext.restartService',
+    ReloadModel = 'rtext.reloadModel',
+    ShowVersion = 'rtext.showVersion',
+    StopService = 'rtext.stopService',
+}
+
+export const commands: string[] = Object.values(Command);
+
+/**
+ * Selects the services a command is executed for, all services if nothing is given.
+ */
+export interface CommandArguments {
+    /**
+     * The `.rtext` file of the services
+     */
+    configFile?: string;
+
+    /**
+     * A document of the service
+     */
+    uri?: string;
+}
+
+/**
+ * Outcome of a command for a single service.
+ */
+export interface ServiceResult {
+    configFile: string;
+    command: string;
+
+    /**
+     * Message of the error if the command failed for the service
+     */
+    error?: string;
+
+    /**
+     * Number of problems of the reloaded model
+     */
+    totalProblems?: number;
+
+    /**
+     * The negotiated protocol version
+     */
+    protocolVersion?: number;
+
+    /**
+     * The protocol version the service reports, if it supports the `version` command
+     */
+    serviceVersion?: number;
+}
+
+export interface CommandResult {
+    command: Command;
+    services: ServiceResult[];
+}
@@ -0,0 +1,277 @@
+import * as lsp from 'vscode-languageserver/node';
+
+import * as protocol from './rtext/protocol';
+import { Token, TokenKind, tokenize, tokenAt } from './rtext/tokenizer';
+
+export interface Placeholder {
+    /**
+     * Tabstop number in the snippet
+     */
+    tabstop: number;
+    name: string;
+    desc: string;
+}
+
+export interface Snippet {
+    /**
+     * Text in LSP snippet syntax
+     */
+    text: string;
+
+    /**
+     * Text without placeholder markup, the placeholder names are inserted
+     */
+    plain: string;
+
+    /**
+     * Placeholders in the order of their tabstops, repeated placeholders only once
+     */
+    placeholders: Placeholder[];
+}
+
+interface PlaceholderMatch {
+    index: number;
+    length: number;
+    number: string;
+    name: string;
+    desc: string;
+}
+
+// Alternatives of a placeholder starting at a bar: `|number|name|desc|`, `|number|name|` and `|number|`
+// (`||` included). The parts are tried in this order, the first one which lets the rest of the text be parsed
+// with the fewest bars left over wins. So `|1|name|, bar: |2|val|` is two placeholders and `, bar: `
+// is no description, and names are words, so `||, name: ||` are two placeholders as well.
+const partPatterns = [/^\d*$/, /^\w*$/, /^[^\n]*$/];
+
+function placeholderAlternatives(insert: string, index: number): PlaceholderMatch[] {
+    const bars = [index];
+    for (let i = 0; i < 3; i++) {
+        const next = insert.indexOf('|', bars[bars.length - 1] + 1);
+        if (next === -1) {
+            break;
+        }
+        bars.push(next);
+    }
+    const parts = bars.slice(1).map((bar, i) => insert.substring(bars[i] + 1, bar));
+    const alternatives: PlaceholderMatch[] = [];
+    for (let count = parts.length; count >= 1; count--) {
+        if (parts.slice(0, count).every((part, i) => partPatterns[i].test(part))) {
+            const end = bars[count];
+            alternatives.push({
+                index, length: end - index + 1, number: parts[0], name: count >= 2 ? parts[1] : '', desc: count === 3 ? parts[2] : ''
+            });
+        }
+    }
+    return alternatives;
+}
+
+/**
+ * Finds the placeholders in the insert text of a completion option, bars which belong to none are text.
+ */
+function findPlaceholders(insert: string): PlaceholderMatch[] {
+    // best parse from a position: number of bars left over and the placeholders
+    const memo: Map<number, { stray: number, matches: PlaceholderMatch[] }> = new Map();
+    function parse(from: number): { stray: number, matches: PlaceholderMatch[] } {
+        const bar = insert.indexOf('|', from);
+        if (bar === -1) {
+            return { stray: 0, matches: [] };
+        }
+        const known = memo.get(bar);
+        if (known) {
+            return known;
+        }
+        const skipped = parse(bar + 1);
+        let best = { stray: skipped.stray + 1, matches: skipped.matches };
+        for (const alternative of placeholderAlternatives(insert, bar)) {
+            const rest = parse(alternative.index + alternative.length);
+            if (rest.stray < best.stray || (rest.stray === best.stray && best.matches === skipped.matches)) {
+                best = { stray: rest.stray, matches: [alternative, ...rest.matches] };
+            }
+        }
+        memo.set(bar, best);
+        return best;
+    }
+    return parse(0).matches;
+}
+
+function replacePlaceholders(insert: string, replacement: string): string {
+    let result = '';
+    let last = 0;
+    for (const m of findPlaceholders(insert)) {
+        result += insert.substring(last, m.index) + replacement;
+        last = m.index + m.length;
+    }
+    return result + insert.substring(last);
+}
+
+function escapeSnippetText(text: string): string {
+    return text.replace(/[$}\\]/g, '\\$&');
+}
+
+/**
+ * Converts the insert text of a completion option to a snippet.
+ * Placeholders with the same name share one tabstop, placeholders without number are numbered
+ * in the order of appearance, skipping the numbers which are used explicitly.
+ */
+export function createSnippet(insert: string): Snippet {
+    const matches = findPlaceholders(insert);
+    const used = new Set(matches.map((m) => m.number).filter((n) => n !== '').map((n) => parseInt(n)));
+    const byName: Map<string, Placeholder> = new Map();
+    const placeholders: Placeholder[] = [];
+    let next = 1;
+
+    function placeholderFor(m: PlaceholderMatch): Placeholder {
+        const name = m.name;
+        const desc = m.desc;
+        const existing = name !== '' ? byName.get(name) : undefined;
+        if (existing) {
+            if (existing.desc === '') {
+                existing.desc = desc;
+            }
+            return existing;
+        }
+        let tabstop: number;
+        const number = m.number;
+        if (number !== '') {
+            tabstop = parseInt(number);
+        } else {
+            while (used.has(next)) {
+                next++;
+            }
+            tabstop = next;
+            used.add(tabstop);
+        }
+        const placeholder = { tabstop, name, desc };
+        placeholders.push(placeholder);
+        if (name !== '') {
+            byName.set(name, placeholder);
+        }
+        return placeholder;
+    }
+
+    let text = '';
+    let plain = '';
+    let last = 0;
+    for (const m of matches) {
+        const literal = insert.substring(last, m.index);
+        text += escapeSnippetText(literal);
+        plain += literal;
+        const placeholder = placeholderFor(m);
+        text += placeholder.name !== '' ? `\${${placeholder.tabstop}:${escapeSnippetText(placeholder.name)}}` : `\${${placeholder.tabstop}}`;
+        plain += placeholder.name;
+        last = m.index + m.length;
+    }
+    text += escapeSnippetText(insert.substring(last));
+    plain += insert.substring(last);
+
+    placeholders.sort((a, b) => a.tabstop - b.tabstop);
+    return { text, plain, placeholders };
+}
+
+/**
+ * Tells if the cursor is where a command is expected, i.e. at the beginning of a line or after a child label.
+ */
+export function isCommandPosition(lineText: string, character: number): boolean {
+    const before = tokenize(lineText.substring(0, character));
+    // the token the cursor is in is the one being completed
+    if (before.length > 0 && before[before.length - 1].end === character && !lineText.substring(0, character).endsWith(':')) {
+        before.pop();
+    }
+    return before.length === 0 || (before.length === 1 && before[0].kind === TokenKind.Label);
+}
+
+/**
+ * Works out what a completion option inserts: a command, an attribute label, a reference or a value.
+ */
+export function completionItemKind(option: protocol.CompletionOption, commandPosition: boolean): lsp.CompletionItemKind {
+    const first = tokenize(replacePlaceholders(option.insert, 'x'))[0];
+    switch (first?.kind) {
+        case TokenKind.Label:
+            return lsp.CompletionItemKind.Property;
+        case TokenKind.Reference:
+            return lsp.CompletionItemKind.Reference;
+        case TokenKind.String:
+        case TokenKind.Integer:
+        case TokenKind.Float:
+        case TokenKind.Boolean:
+            return lsp.CompletionItemKind.Value;
+        case TokenKind.Identifier:
+            if (commandPosition) {
+                return lsp.CompletionItemKind.Class;
+            }
+            // an identifier as argument value is either an enum literal or a reference by name
+            return /\//.test(option.display) ? lsp.CompletionItemKind.Reference : lsp.CompletionItemKind.EnumMember;
+        default:
+            return lsp.CompletionItemKind.Snippet;
+    }
+}
+
+// Tokens which are replaced by the completion, punctuation is kept
+const replaceableTokens = new Set([
+    TokenKind.Identifier, TokenKind.Reference, TokenKind.Label, TokenKind.String,
+    TokenKind.Integer, TokenKind.Float, TokenKind.Boolean
+]);
+
+/**
+ * Range of the token at the cursor which a completion replaces, an empty range at the cursor if there is none.
+ */
+export function replaceRange(lineText: string, position: lsp.Position): lsp.Range {
+    const token: Token | undefined = tokenAt(tokenize(lineText), position.character);
+    if (token && replaceableTokens.has(token.kind)) {
+        return lsp.Range.create(position.line, token.start, position.line, token.end);
+    }
+    return lsp.Range.create(position, position);
+}
+
+interface CompletionData {
+    desc: string;
+    placeholders: Placeholder[];
+}
+
+/**
+ * Creates the completion items for the options of the service.
+ * The documentation is added when an item is resolved.
+ */
+export function createCompletionItems(
+    options: protocol.CompletionOption[], lineText: string, position: lsp.Position, placeholders: boolean
+): lsp.CompletionItem[] {
+    const range = replaceRange(lineText, position);
+    const commandPosition = isCommandPosition(lineText, position.character);
+    return options.map((option, index) => {
+        const snippet = placeholders ? createSnippet(option.insert) : undefined;
+        const data: CompletionData = { desc: option.desc ?? '', placeholders: snippet?.placeholders ?? [] };
+        const firstLine = data.desc.split('\n')[0];
+        return {
+            label: option.display,
+            detail: firstLine.length > 80 ? firstLine.substring(0, 79) + '…' : firstLine || undefined,
+            kind: completionItemKind(option, commandPosition),
+            textEdit: lsp.TextEdit.replace(range, snippet ? snippet.text : option.insert),
+            insertTextFormat: snippet ? lsp.InsertTextFormat.Snippet : lsp.InsertTextFormat.PlainText,
+            filterText: snippet ? snippet.plain : option.insert,
+            // keep the order of the service
+            sortText: index.toString().padStart(5, '0'),
+            data
+        };
+    });
+}
+
+/**
+ * Adds the full description and the descriptions of the placeholders as documentation.
+ */
+export function resolveCompletionItem(item: lsp.CompletionItem): lsp.CompletionItem {
+    const data = item.data as CompletionData | undefined;
+    if (data) {
+        const sections: string[] = [];
+        if (data.desc) {
+            sections.push(data.desc);
+        }
+        const described = data.placeholders.filter((p) => p.desc !== '');
+        if (described.length > 0) {
+            sections.push(described.map((p) => `- \`${p.name || p.tabstop}\`: ${p.desc}`).join('\n'));
+        }
+        if (sections.length > 0) {
+            item.documentation = { kind: lsp.MarkupKind.Markdown, value: sections.join('\n\n') };
+        }
+    }
+    return item;
+}
@@ -0,0 +1,237 @@
+import * as lsp from 'vscode-languageserver/node';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as diagnostics from './diagnostics';
+import { escapeMarkdown, displayPath } from './hover';
+import { FLAGS_WITH_VALUE, file_matches_pattern, file_pattern, parse_config, path_tokens } from './rtext/config';
+
+// Files listed below the directory of a config, more are not searched
+const maxListedFiles = 10000;
+
+// Files shown in the hover of a pattern list
+const maxHoverFiles = 20;
+
+const headerPattern = /^(.+):\s*$/;
+
+function isComment(text: string): boolean {
+    return /^\s*#/.test(text);
+}
+
+/**
+ * Lists the files below a directory, hidden files and directories and `node_modules` are skipped.
+ * The directories are read asynchronously, the walk runs on every completion and hover of a pattern list.
+ */
+async function listFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    const pending = [dir];
+    while (pending.length > 0 && files.length < maxListedFiles) {
+        const current = pending.shift() as string;
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(current, { withFileTypes: true });
+        } catch {
+            continue;
+        }
+        for (const entry of entries) {
+            if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+                continue;
+            }
+            const file = path.join(current, entry.name);
+            if (entry.isDirectory()) {
+                pending.push(file);
+            } else if (entry.isFile() && files.length < maxListedFiles) {
+                files.push(file);
+            }
+        }
+    }
+    return files;
+}
+
+interface PatternRange {
+    pattern: string;
+    start: number;
+    end: number;
+}
+
+// The patterns of a pattern list line with their columns
+function patternRanges(text: string): PatternRange[] {
+    const ranges: PatternRange[] = [];
+    const list = text.substring(0, text.lastIndexOf(':'));
+    let offset = 0;
+    for (const part of list.split(',')) {
+        const pattern = part.trim();
+        if (pattern.length > 0) {
+            const start = offset + part.indexOf(pattern);
+            ranges.push({ pattern, start, end: start + pattern.length });
+        }
+        offset += part.length + 1;
+    }
+    return ranges;
+}
+
+// Tells if a line is the command line of a pattern list, comments may be in between
+function isCommandLine(lines: string[], line: number): boolean {
+    if (headerPattern.test(lines[line])) {
+        return false;
+    }
+    for (let l = line - 1; l >= 0; l--) {
+        if (!isComment(lines[l])) {
+            return headerPattern.test(lines[l]);
+        }
+    }
+    return false;
+}
+
+// Index of the command line following a pattern list line
+function commandLineOf(lines: string[], headerLine: number): number | undefined {
+    for (let l = headerLine + 1; l < lines.length; l++) {
+        if (!isComment(lines[l])) {
+            return /\S/.test(lines[l]) && !headerPattern.test(lines[l]) ? l : undefined;
+        }
+    }
+}
+
+/**
+ * Checks a `.rtext` document: reports its parse errors, model paths which don't exist
+ * and patterns which are already used by a previous entry, since only the first entry is used for a file.
+ */
+export function configDiagnostics(text: string, file: string, source: string): lsp.Diagnostic[] {
+    const lines = text.split(/\r?\n/);
+    const result = parse_config(text, file);
+    const found: lsp.Diagnostic[] = result.errors.map((error) => {
+        return diagnostics.createConfigDiagnostic(error, lines[error.line - 1], source);
+    });
+
+    const dir = path.dirname(file);
+    const usedPatterns: Map<string, number> = new Map();
+    for (const config of result.configs) {
+        if (config.line === undefined) {
+            continue;
+        }
+        const headerLine = config.line - 1;
+        for (const range of patternRanges(lines[headerLine])) {
+            const previous = usedPatterns.get(range.pattern);
+            if (previous !== undefined) {
+                found.push({
+                    message: `Duplicate pattern '${range.pattern}', it is already used in line ${previous + 1}`,
+                    range: lsp.Range.create(headerLine, range.start, headerLine, range.end),
+                    severity: lsp.DiagnosticSeverity.Warning,
+                    code: 'duplicate-pattern',
+                    source
+                });
+            } else {
+                usedPatterns.set(range.pattern, headerLine);
+            }
+        }
+
+        const commandLine = commandLineOf(lines, headerLine);
+        if (commandLine === undefined) {
+            continue;
+        }
+        for (const token of path_tokens(lines[commandLine])) {
+            // paths with wildcards or variables are resolved by the service
+            if (/[*?$]/.test(token.text) || fs.existsSync(path.resolve(dir, token.text))) {
+                continue;
+            }
+            found.push({
+                message: `Model path '${token.text}' does not exist`,
+                range: lsp.Range.create(commandLine, token.start, commandLine, token.end),
+                severity: lsp.DiagnosticSeverity.Warning,
+                code: 'missing-path',
+                source
+            });
+        }
+    }
+    return found;
+}
+
+/**
+ * Completes the flags of the service on command lines and the file patterns of the workspace files on pattern list lines.
+ * Patterns which are already used in the document are not suggested.
+ */
+export async function configCompletionItems(lines: string[], position: lsp.Position, configFile: string): Promise<lsp.CompletionItem[]> {
+    const text = lines[position.line] ?? '';
+    const before = text.substring(0, position.character);
+    const after = text.substring(position.character).match(/^\S*/)?.[0] ?? '';
+
+    if (isComment(text)) {
+        return [];
+    }
+    if (isCommandLine(lines, position.line)) {
+        const word = before.match(/\S*$/)?.[0] ?? '';
+        if (!word.startsWith('-')) {
+            return [];
+        }
+        const range = lsp.Range.create(position.line, position.character - word.length, position.line, position.character + after.length);
+        return [...FLAGS_WITH_VALUE].map((flag) => ({
+            label: flag,
+            kind: lsp.CompletionItemKind.Property,
+            detail: 'Option with a value',
+            textEdit: lsp.TextEdit.replace(range, flag)
+        }));
+    }
+
+    if (before.includes(':')) {
+        return [];
+    }
+    const segment = before.substring(before.lastIndexOf(',') + 1);
+    const start = position.character - segment.trimStart().length;
+    const range = lsp.Range.create(position.line, start, position.line, position.character + after.replace(/[,:].*$/, '').length);
+    const used = new Set(lines.filter((l) => headerPattern.test(l)).flatMap((l) => patternRanges(l).map((r) => r.pattern)));
+    // the line may not be complete yet
+    before.split(',').slice(0, -1).forEach((p) => used.add(p.trim()));
+    const counts: Map<string, number> = new Map();
+    for (const file of await listFiles(path.dirname(configFile))) {
+        const pattern = file_pattern(file);
+        if (!used.has(pattern)) {
+            counts.set(pattern, (counts.get(pattern) ?? 0) + 1);
+        }
+    }
+    // patterns matching more files first
+    const patterns = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    return patterns.map(([pattern, count], index) => ({
+        label: pattern,
+        kind: lsp.CompletionItemKind.File,
+        detail: count === 1 ? '1 file' : `${count} files`,
+        sortText: String(index).padStart(5, '0'),
+        textEdit: lsp.TextEdit.replace(range, pattern)
+    }));
+}
+
+/**
+ * Shows the files below the config directory matched by the patterns of a pattern list line.
+ * Returns null if the line is no pattern list.
+ */
+export async function configHover(
+    lines: string[], position: lsp.Position, configFile: string, format: lsp.MarkupKind
+): Promise<lsp.Hover | null> {
+    const text = lines[position.line] ?? '';
+    if (isComment(text) || !headerPattern.test(text)) {
+        return null;
+    }
+    const patterns = patternRanges(text).map((r) => r.pattern);
+    const dir = path.dirname(configFile);
+    const files = (await listFiles(dir)).filter((file) => patterns.some((p) => file_matches_pattern(file, p)));
+    const shown = files.slice(0, maxHoverFiles).map((file) => displayPath(file, dir));
+    const more = files.length - shown.length;
+
+    let value: string;
+    if (format === lsp.MarkupKind.Markdown) {
+        const list = patterns.map((p) => `\`${p}\``).join(', ');
+        value = files.length === 0 ? `No files match ${list}` : `${list} matches ${files.length === 1 ? '1 file' : `${files.length} files`}:\n\n`;
+        value += shown.map((file) => `- ${escapeMarkdown(file)}`).join('\n');
+        if (more > 0) {
+            value += `\n- and ${more} more`;
+        }
+    } else {
+        const list = patterns.join(', ');
+        value = files.length === 0 ? `No files match ${list}` : `${list} matches ${files.length === 1 ? '1 file' : `${files.length} files`}:\n`;
+        value += shown.join('\n');
+        if (more > 0) {
+            value += `\nand ${more} more`;
+        }
+    }
+    const start = text.length - text.trimStart().length;
+    return { contents: { kind: format, value }, range: lsp.Range.create(position.line, start, position.line, text.trimEnd().length) };
+}
@@ -0,0 +1,151 @@
+import * as lsp from 'vscode-languageserver/node';
+
+import * as protocol from './rtext/protocol';
+import { ConfigError } from './rtext/config';
+import { Token, TokenKind, tokenize, commandToken, elementNameToken } from './rtext/tokenizer';
+
+type TokenFinder = (tokens: Token[], subject?: string) => Token | undefined;
+
+interface ProblemPattern {
+    /**
+     * Stable diagnostic code
+     */
+    code: string;
+
+    /**
+     * Message pattern, the first group captures the quoted subject of the message if any
+     */
+    pattern: RegExp;
+
+    /**
+     * Finds the token the problem refers to
+     */
+    token: TokenFinder;
+}
+
+function unquote(text: string): string {
+    return text.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+const subjectToken: TokenFinder = (tokens, subject) => {
+    return subject === undefined ? undefined : tokens.find((t) => unquote(t.text) === subject);
+};
+
+const labelToken: TokenFinder = (tokens, subject) => {
+    return tokens.find((t) => t.kind === TokenKind.Label && t.text === `${subject}:`);
+};
+
+// The value following a label, the first value if it is an array
+const labelValueToken: TokenFinder = (tokens, subject) => {
+    const label = labelToken(tokens, subject);
+    if (label) {
+        let value = tokens[tokens.indexOf(label) + 1];
+        if (value && value.kind === TokenKind.LeftBracket) {
+            value = tokens[tokens.indexOf(value) + 1];
+        }
+        return value;
+    }
+};
+
+const referenceToken: TokenFinder = (tokens, subject) => {
+    return subjectToken(tokens, subject) ?? tokens.find((t) => t.kind === TokenKind.Reference);
+};
+
+const patterns: ProblemPattern[] = [
+    { code: 'unknown-command', pattern: /unknown command '([^']*)'/i, token: (tokens) => commandToken(tokens) },
+    { code: 'command-not-allowed', pattern: /command '([^']*)' can not be used/i, token: (tokens) => commandToken(tokens) },
+    { code: 'unknown-label', pattern: /unknown (?:child )?label '([^']*)'/i, token: labelToken },
+    { code: 'unknown-argument', pattern: /unknown argument '([^']*)'/i, token: labelToken },
+    { code: 'duplicate-argument', pattern: /argument '([^']*)' already defined/i, token: labelToken },
+    { code: 'too-many-values', pattern: /argument '([^']*)' can only take one value/i, token: labelValueToken },
+    { code: 'invalid-value', pattern: /argument '([^']*)' can only take values of type/i, token: labelValueToken },
+    { code: 'invalid-value', pattern: /(?:invalid|unexpected) (?:argument )?value '([^']*)'/i, token: subjectToken },
+    { code: 'unexpected-argument', pattern: /unexpected unlabled argument/i, token: (tokens) => elementNameToken(tokens) },
+    { code: 'unresolved-reference', pattern: /unresolved reference(?: '([^']*)')?/i, token: referenceToken },
+    { code: 'duplicate-identifier', pattern: /duplicate (?:identifier|name)(?: '([^']*)')?/i, token: (tokens, subject) => subjectToken(tokens, subject) ?? elementNameToken(tokens) },
+    { code: 'parse-error', pattern: /(?:parse error|unexpected token)(?: on token)?(?: '([^']*)')?/i, token: subjectToken },
+];
+
+function convertSeverity(severity: protocol.ProblemSeverity): lsp.DiagnosticSeverity {
+    switch (severity) {
+        case protocol.ProblemSeverity.debug:
+            return lsp.DiagnosticSeverity.Hint;
+        case protocol.ProblemSeverity.error:
+        case protocol.ProblemSeverity.fatal:
+            return lsp.DiagnosticSeverity.Error;
+        case protocol.ProblemSeverity.warn:
+            return lsp.DiagnosticSeverity.Warning;
+        case protocol.ProblemSeverity.info:
+            return lsp.DiagnosticSeverity.Information;
+        default:
+            //@todo assert
+            return lsp.DiagnosticSeverity.Error;
+    }
+}
+
+/**
+ * Converts a problem reported by the service to a diagnostic.
+ * If the text of the reported line is given, the range is narrowed to the token the problem refers to,
+ * otherwise it spans the non-whitespace part of the line or the whole line.
+ */
+export function createDiagnostic(problem: protocol.FileProblem, lineText: string | undefined, source: string): lsp.Diagnostic {
+    const line = Math.max(problem.line - 1, 0);
+    let range = lsp.Range.create(line, 0, line, lsp.uinteger.MAX_VALUE);
+    let code: string | undefined;
+
+    let token: Token | undefined;
+    const tokens = lineText !== undefined ? tokenize(lineText) : [];
+    for (const p of patterns) {
+        const m = problem.message.match(p.pattern);
+        if (m) {
+            code = p.code;
+            token = p.token(tokens, m[1]);
+            break;
+        }
+    }
+    if (token) {
+        range = lsp.Range.create(line, token.start, line, token.end);
+    } else if (tokens.length > 0) {
+        range = lsp.Range.create(line, tokens[0].start, line, tokens[tokens.length - 1].end);
+    }
+
+    const diagnostic: lsp.Diagnostic = {
+        message: problem.message,
+        range,
+        severity: convertSeverity(problem.severity),
+        source
+    };
+    if (code) {
+        diagnostic.code = code;
+    }
+    return diagnostic;
+}
+
+/**
+ * Returns a message telling that not all problems were reported, if so.
+ */
+export function truncationMessage(response: protocol.LoadModelResponse): string | undefined {
+    const reported = response.problems.reduce((count, p) => count + p.problems.length, 0);
+    if (response.total_problems === -1) {
+        return `Problem detection was interrupted, only ${reported} problems are reported and there may be more.`;
+    } else if (response.total_problems > reported) {
+        return `The model has ${response.total_problems} problems, only ${reported} of them are reported.`;
+    }
+}
+
+/**
+ * Converts an error in a `.rtext` config file to a diagnostic spanning the non-whitespace part of the line.
+ */
+export function createConfigDiagnostic(error: ConfigError, lineText: string | undefined, source: string): lsp.Diagnostic {
+    const line = Math.max(error.line - 1, 0);
+    const text = lineText ?? '';
+    const start = text.length - text.trimStart().length;
+    const end = text.trimEnd().length;
+    return {
+        message: error.message,
+        range: end > start ? lsp.Range.create(line, start, line, end) : lsp.Range.create(line, 0, line, lsp.uinteger.MAX_VALUE),
+        severity: lsp.DiagnosticSeverity.Error,
+        code: error.code,
+        source
+    };
+}
@@ -0,0 +1,159 @@
+import * as lsp from 'vscode-languageserver/node';
+
+import { Token, TokenKind, tokenize, commandToken } from './rtext/tokenizer';
+
+const openers: Map<TokenKind, TokenKind> = new Map([
+    [TokenKind.LeftBrace, TokenKind.RightBrace],
+    [TokenKind.LeftBracket, TokenKind.RightBracket],
+]);
+
+interface Indentation {
+    depth: number;
+
+    /**
+     * Spaces after the indentation of the depth, aligning continuation lines
+     */
+    align: number;
+}
+
+// Column offset which continuation lines of a statement are aligned to: the first argument after the command
+function continuationAlign(tokens: Token[], indentUnit: number): number {
+    const command = commandToken(tokens);
+    if (!command) {
+        return 0;
+    }
+    const argument = tokens[tokens.indexOf(command) + 1];
+    if (!argument || argument.kind === TokenKind.Comma || argument.kind === TokenKind.Backslash) {
+        return indentUnit;
+    }
+    return argument.start - tokens[0].start;
+}
+
+function isContinued(tokens: Token[]): boolean {
+    const last = tokens[tokens.length - 1];
+    return last.kind === TokenKind.Comma || last.kind === TokenKind.Backslash;
+}
+
+/**
+ * Computes the indentation of each line from the block and array nesting.
+ * Continuation lines after `,` or `\` are aligned with the first argument of their element line.
+ * Comments and annotations are indented like an element at their position, but don't end
+ * a continuation, as in `context.extract`. Blank lines get the indentation of a line typed there.
+ */
+function indentations(lines: string[], indentUnit: number): Indentation[] {
+    const result: Indentation[] = [];
+    const stack: TokenKind[] = [];
+    // alignment of continuation lines per nesting depth, set by the first line of a statement
+    const aligns: (number | undefined)[] = [];
+    let continued = false;
+
+    lines.forEach((text) => {
+        const tokens = tokenize(text);
+        const first = tokens[0];
+
+        let depth = stack.length;
+        let rest = tokens;
+        const align = aligns[depth];
+        if (first && (first.kind === TokenKind.RightBrace || first.kind === TokenKind.RightBracket)) {
+            // closers at the start of a line are part of the outer level
+            let closed = 0;
+            while (closed < tokens.length && stack.length > 0 && tokens[closed].kind === stack[stack.length - 1]) {
+                stack.pop();
+                closed++;
+            }
+            depth = stack.length;
+            rest = tokens.slice(closed);
+            result.push({ depth, align: 0 });
+        } else if (continued && align !== undefined) {
+            result.push({ depth, align });
+        } else {
+            result.push({ depth, align: 0 });
+        }
+
+        if (!first || first.kind === TokenKind.Comment || first.kind === TokenKind.Annotation) {
+            return;
+        }
+        if (!continued || aligns[depth] === undefined) {
+            aligns[depth] = continuationAlign(tokens, indentUnit);
+        }
+        for (const token of rest) {
+            const closer = openers.get(token.kind);
+            if (closer !== undefined) {
+                stack.push(closer);
+                // a new level starts with a new statement
+                aligns[stack.length] = undefined;
+            } else if (stack.length > 0 && token.kind === stack[stack.length - 1]) {
+                stack.pop();
+            }
+        }
+        continued = isContinued(tokens);
+        if (!continued) {
+            aligns.length = stack.length;
+        }
+    });
+    return result;
+}
+
+function indentText(indentation: Indentation, options: lsp.FormattingOptions): string {
+    const unit = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+    return unit.repeat(indentation.depth) + ' '.repeat(indentation.align);
+}
+
+function indentUnitWidth(options: lsp.FormattingOptions): number {
+    return options.insertSpaces ? options.tabSize : 1;
+}
+
+/**
+ * Creates the edits which normalize the indentation of the lines in the range.
+ * Trailing whitespace is only removed and blank lines are only emptied if `trimTrailingWhitespace` is set.
+ */
+export function formatLines(lines: string[], options: lsp.FormattingOptions, range?: lsp.Range): lsp.TextEdit[] {
+    const edits: lsp.TextEdit[] = [];
+    const first = range ? range.start.line : 0;
+    const last = range ? Math.min(range.end.line, lines.length - 1) : lines.length - 1;
+    const indents = indentations(lines.slice(0, last + 1), indentUnitWidth(options));
+    for (let line = first; line <= last; line++) {
+        const text = lines[line];
+        const content = text.trim();
+        const leading = text.length - text.trimStart().length;
+        const trim = options.trimTrailingWhitespace === true;
+        if (content.length === 0) {
+            if (text.length > 0 && trim) {
+                edits.push(lsp.TextEdit.del(lsp.Range.create(line, 0, line, text.length)));
+            }
+            continue;
+        }
+        const indent = indentText(indents[line], options);
+        if (text.substring(0, leading) !== indent) {
+            edits.push(lsp.TextEdit.replace(lsp.Range.create(line, 0, line, leading), indent));
+        }
+        const trailing = text.trimEnd().length;
+        if (trailing < text.length && trim) {
+            edits.push(lsp.TextEdit.del(lsp.Range.create(line, trailing, line, text.length)));
+        }
+    }
+    return edits;
+}
+
+/**
+ * Creates the edit which indents a line after a character was typed.
+ * After a newline, the new line is indented even if it's still blank.
+ */
+export function formatOnType(lines: string[], position: lsp.Position, options: lsp.FormattingOptions): lsp.TextEdit[] {
+    const line = position.line;
+    if (line >= lines.length) {
+        return [];
+    }
+    const text = lines[line];
+    const leading = text.length - text.trimStart().length;
+    const indent = indentText(indentations(lines.slice(0, line + 1), indentUnitWidth(options))[line], options);
+    if (text.substring(0, leading) === indent) {
+        return [];
+    }
+    return [lsp.TextEdit.replace(lsp.Range.create(line, 0, line, leading), indent)];
+}
+
+/**
+ * Characters which trigger formatting while typing, the first one is the primary trigger.
+ */
+export const onTypeTriggers = ['}', '{', ']', '\n'];
@@ -0,0 +1,80 @@
+import * as lsp from 'vscode-languageserver/node';
+import * as path from 'path';
+
+import * as protocol from './rtext/protocol';
+import { targetUri } from './links';
+
+/**
+ * Picks the hover format from the formats the client supports, in its order of preference.
+ */
+export function hoverFormat(capabilities: lsp.ClientCapabilities): lsp.MarkupKind {
+    const formats = capabilities.textDocument?.hover?.contentFormat ?? [];
+    return formats.find((f) => f === lsp.MarkupKind.Markdown || f === lsp.MarkupKind.PlainText) ?? lsp.MarkupKind.PlainText;
+}
+
+export function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]<>()#+\-.!|]/g, '\\$&');
+}
+
+/**
+ * Makes a file relative to the workspace folder if it is inside.
+ */
+export function displayPath(file: string, workspaceFolder?: string | null): string {
+    if (workspaceFolder) {
+        const relative = path.relative(workspaceFolder, file);
+        if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+            return relative.split(path.sep).join('/');
+        }
+    }
+    return file;
+}
+
+function markdownTarget(target: protocol.LinkTarget, workspaceFolder?: string | null): string {
+    const location = `${displayPath(target.file, workspaceFolder)}:${target.line}`;
+    const uri = targetUri(target.file, target.line);
+    let text = `\`${target.display.replace(/`/g, "'")}\` [${escapeMarkdown(location)}](${uri})`;
+    if (target.desc) {
+        text += ` — ${escapeMarkdown(target.desc)}`;
+    }
+    return text;
+}
+
+function plainTextTarget(target: protocol.LinkTarget, workspaceFolder?: string | null): string {
+    let text = `${target.display} (${displayPath(target.file, workspaceFolder)}:${target.line})`;
+    if (target.desc) {
+        text += ` — ${target.desc}`;
+    }
+    return text;
+}
+
+/**
+ * Creates the hover from the context description of the service and the targets of a hovered reference.
+ * Returns null if there is nothing to show.
+ */
+export function createHover(
+    desc: string | undefined, targets: protocol.LinkTarget[], format: lsp.MarkupKind,
+    range?: lsp.Range, workspaceFolder?: string | null
+): lsp.Hover | null {
+    const sections: string[] = [];
+    if (format === lsp.MarkupKind.Markdown) {
+        if (desc) {
+            // keep the line breaks of the description
+            sections.push(desc.split(/\r?\n/).map(escapeMarkdown).join('  \n'));
+        }
+        if (targets.length > 0) {
+            sections.push(targets.map((t) => `- ${markdownTarget(t, workspaceFolder)}`).join('\n'));
+        }
+    } else {
+        if (desc) {
+            sections.push(desc);
+        }
+        if (targets.length > 0) {
+            sections.push(targets.map((t) => plainTextTarget(t, workspaceFolder)).join('\n'));
+        }
+    }
+    if (sections.length === 0) {
+        return null;
+    }
+    const separator = format === lsp.MarkupKind.Markdown ? '\n\n---\n\n' : '\n\n';
+    return { contents: { kind: format, value: sections.join(separator) }, range };
+}
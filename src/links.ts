@@ -0,0 +1,61 @@
+import * as lsp from 'vscode-languageserver/node';
+import { pathToFileURL } from 'url';
+
+import * as protocol from './rtext/protocol';
+import * as tokenizer from './rtext/tokenizer';
+
+/**
+ * URI of a target line, in the `#L<line>` form editors open at the line.
+ */
+export function targetUri(file: string, line: number): string {
+    return `${pathToFileURL(file).toString()}#L${line}`;
+}
+
+/**
+ * Number of candidates the service is asked to confirm at a time.
+ */
+export const confirmBatchSize = 10;
+
+/**
+ * Finds the tokens of a document which might be links, comments and annotations are skipped.
+ * The candidates still need to be confirmed by the service.
+ */
+export function linkCandidates(lines: string[]): lsp.Range[] {
+    const ranges: lsp.Range[] = [];
+    lines.forEach((text, line) => {
+        const tokens = tokenizer.tokenize(text);
+        for (const token of tokens) {
+            if (tokenizer.isReferenceCandidate(tokens, token)) {
+                ranges.push(lsp.Range.create(line, token.start, line, token.end));
+            }
+        }
+    });
+    return ranges;
+}
+
+/**
+ * Tells if the link reported by the service is the candidate token, or a part of it like the text of a string.
+ */
+export function confirmsCandidate(candidate: lsp.Range, link: lsp.Range): boolean {
+    return link.start.line === candidate.start.line &&
+        link.start.character >= candidate.start.character &&
+        link.end.character <= candidate.end.character &&
+        link.start.character < link.end.character;
+}
+
+function targetTooltip(target: protocol.LinkTarget): string {
+    return target.desc ? `${target.display} — ${target.desc}` : target.display;
+}
+
+/**
+ * Creates the document link for the targets of a reference.
+ * A link opens a single target only, further targets are listed in the tooltip.
+ */
+export function createDocumentLink(range: lsp.Range, targets: protocol.LinkTarget[]): lsp.DocumentLink {
+    const [first] = targets;
+    let tooltip = targetTooltip(first);
+    if (targets.length > 1) {
+        tooltip = [`${targets.length} targets:`, ...targets.map((t) => `${targetTooltip(t)} (${t.file}:${t.line})`)].join('\n');
+    }
+    return { range, target: targetUri(first.file, first.line), tooltip };
+}
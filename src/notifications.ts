@@ -0,0 +1,32 @@
+import * as lsp from 'vscode-languageserver/node';
+
+import { ServiceState } from './rtext/client';
+
+export interface ServiceStatusParams {
+    /**
+     * The `.rtext` file which configures the service
+     */
+    configFile: string;
+
+    /**
+     * Command line of the service
+     */
+    command: string;
+
+    state: ServiceState;
+
+    /**
+     * Why the service is reconnecting, failed or stopped
+     */
+    reason?: string;
+}
+
+/**
+ * Sent by the server whenever the state of an RText service changes, e.g. to show it in a status bar.
+ */
+export const ServiceStatusNotification = new lsp.NotificationType<ServiceStatusParams>('rtext/serviceStatus');
+
+/**
+ * Sent by the server when the user asks to see the log, e.g. after a service failed to start.
+ */
+export const ShowLogNotification = new lsp.NotificationType0('rtext/showLog');
@@ -1,9 +1,61 @@
-import { ServiceConfig } from "./rtext/config"
-
 export interface ServerInitializationOptions {
     id: number;
+
+    /**
+     * Enables hover, it is off if not set
+     */
     hoverProvider?: boolean;
-    command: string;
+
+    /**
+     * Command line which launches the services instead of the executables in the `.rtext` files,
+     * e.g. `bundle exec rtext-service`. It replaces the part of each command line up to `rtext-service`,
+     * the model paths and flags of the entries are kept.
+     * The command lines are run without a shell: `$VAR`, `~`, pipes and redirections are passed on unchanged,
+     * use `${env:VAR}` and `${workspaceFolder}` instead or run the shell explicitly, e.g. `sh -c "..."`.
+     */
+    command?: string;
+
+    /**
+     * Arguments appended to the command line of the services
+     */
     args?: string[];
-    rtextConfig: ServiceConfig;
+
+    /**
+     * Environment variables of the services in addition to the ones of the server,
+     * the values may contain `${env:VAR}` and `${workspaceFolder}`
+     */
+    env?: { [name: string]: string };
+
+    /**
+     * Working directory of the services, relative to the directory of the `.rtext` file
+     */
+    cwd?: string;
+
+    /**
+     * Time in milliseconds a launched service has to report its port
+     */
+    startupTimeout?: number;
+
+    /**
+     * Regular expression matching the output line of a service which reports its port,
+     * the first group captures the port, `listening on port (\d+)` by default
+     */
+    portPattern?: string;
+
+    /**
+     * Regular expressions matching stderr output of a service which makes its start fail immediately
+     */
+    fatalPatterns?: string[];
+
+    /**
+     * Address of a running service all clients connect to instead of launching the services:
+     * `host:port`, a port on the local host or the path of a Unix domain socket.
+     * The service is neither launched nor stopped by the server.
+     */
+    attach?: string;
+
+    /**
+     * Minimum level of the messages logged to the client, `info` by default
+     */
+    logLevel?: "debug" | "info" | "warning" | "error";
 }
@@ -0,0 +1,137 @@
+import * as lsp from 'vscode-languageserver/node';
+
+import * as outline from './rtext/outline';
+import { TokenKind, commandToken, elementNameToken } from './rtext/tokenizer';
+
+/**
+ * An element with a name and its qualified path, e.g. `['Main', 'Base']` for `/Main/Base`.
+ */
+export interface NamedElement {
+    node: outline.OutlineNode;
+    path: string[];
+}
+
+const identifierPattern = /^[a-zA-Z_]\w*$/;
+
+/**
+ * Tells if a name can be used as element name without quotes, only such names can be renamed.
+ */
+export function isValidName(name: string): boolean {
+    return identifierPattern.test(name);
+}
+
+// Name of an element as used in reference paths
+function pathSegment(node: outline.OutlineNode): string | undefined {
+    return node.name?.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Finds the element whose name is at a line and the qualified path built from the names of its ancestors.
+ * Elements without a name and child labels don't add to the path.
+ */
+export function elementAt(nodes: outline.OutlineNode[], line: number, parentPath: string[] = []): NamedElement | undefined {
+    for (const node of nodes) {
+        const segment = node.kind === outline.OutlineKind.Element ? pathSegment(node) : undefined;
+        const path = segment !== undefined ? [...parentPath, segment] : parentPath;
+        if (segment !== undefined && node.selection.startLine === line) {
+            return { node, path };
+        }
+        const inSpan = node.span.startLine <= line && line <= node.span.endLine;
+        if (inSpan || node.kind === outline.OutlineKind.Label) {
+            const found = elementAt(node.children, line, path);
+            if (found) {
+                return found;
+            }
+        }
+    }
+}
+
+/**
+ * Returns the named elements below an element, they are referenced with paths containing the element name.
+ */
+export function descendants(element: NamedElement): NamedElement[] {
+    const result: NamedElement[] = [];
+    function visit(nodes: outline.OutlineNode[], path: string[]) {
+        for (const node of nodes) {
+            const segment = node.kind === outline.OutlineKind.Element ? pathSegment(node) : undefined;
+            const childPath = segment !== undefined ? [...path, segment] : path;
+            if (segment !== undefined) {
+                result.push({ node, path: childPath });
+            }
+            visit(node.children, childPath);
+        }
+    }
+    visit(element.node.children, element.path);
+    return result;
+}
+
+// Index of the segment of a reference which holds the renamed name, if the reference refers to the target
+function renamedSegment(segments: string[], absolute: boolean, target: string[], renamedIndex: number): number | undefined {
+    if (absolute) {
+        const matches = segments.length === target.length && segments.every((s, i) => s === target[i]);
+        return matches ? renamedIndex : undefined;
+    }
+    // relative references are resolved from the referencing element, they end with the target path
+    const offset = target.length - segments.length;
+    const matches = offset >= 0 && segments.every((s, i) => s === target[offset + i]);
+    return matches && renamedIndex >= offset ? renamedIndex - offset : undefined;
+}
+
+function referenceEdit(token: outline.LineToken, target: string[], renamedIndex: number, newName: string): lsp.TextEdit | undefined {
+    let text = token.text;
+    let start = token.start;
+    if (token.kind === TokenKind.String) {
+        text = text.substring(1, text.length - 1);
+        start += 1;
+    } else if (token.kind !== TokenKind.Reference && token.kind !== TokenKind.Identifier) {
+        return undefined;
+    }
+    const absolute = text.startsWith('/');
+    const segments = (absolute ? text.substring(1) : text).split('/');
+    const index = renamedSegment(segments, absolute, target, renamedIndex);
+    if (index === undefined) {
+        return undefined;
+    }
+    const column = start + (absolute ? 1 : 0) + segments.slice(0, index).reduce((sum, s) => sum + s.length + 1, 0);
+    const range = lsp.Range.create(token.line, column, token.line, column + segments[index].length);
+    return lsp.TextEdit.replace(range, newName);
+}
+
+/**
+ * Creates the edits for the references to a target element in the element at a line of a referencing file.
+ * The references may be on continuation lines of the element.
+ * `renamedIndex` is the index of the renamed segment in the target path.
+ */
+export function referenceEdits(lines: string[], line: number, target: string[], renamedIndex: number, newName: string): lsp.TextEdit[] {
+    const logical = outline.logicalLines(lines).find((l) => l.tokens[0].line === line);
+    if (!logical) {
+        return [];
+    }
+    const edits: lsp.TextEdit[] = [];
+    const tokens = logical.tokens;
+    // the command and the element name are no references
+    const skipped = [commandToken(tokens), elementNameToken(tokens)];
+    for (const token of tokens.filter((t) => !skipped.includes(t))) {
+        const edit = referenceEdit(token, target, renamedIndex, newName);
+        if (edit) {
+            edits.push(edit);
+        }
+    }
+    return edits;
+}
+
+/**
+ * Adds edits to a workspace edit, edits which are already there are skipped.
+ */
+export function addEdits(workspaceEdit: lsp.WorkspaceEdit, uri: string, edits: lsp.TextEdit[]): void {
+    const changes = workspaceEdit.changes ?? (workspaceEdit.changes = {});
+    const existing = changes[uri] ?? (changes[uri] = []);
+    for (const edit of edits) {
+        const duplicate = existing.some((e) => {
+            return e.range.start.line === edit.range.start.line && e.range.start.character === edit.range.start.character;
+        });
+        if (!duplicate) {
+            existing.push(edit);
+        }
+    }
+}
@@ -7,17 +7,43 @@ import { clearInterval } from "timers";
 import * as protocol from "./protocol";
 import * as context from "./context";
 import * as message from "./message";
-import { ServiceConfig } from "./config";
+import { ServiceConfig, command_arguments, expand_variables, tokenize_command } from "./config";
+import {
+    ConnectionClosedError, RequestCancelledError, RequestTimeoutError, ServiceStartError, UnknownCommandError, UnsupportedVersionError
+} from "./errors";
 import { ConnectorInterface } from "./connectorManager";
+import { logger } from "./logger";
 
 export type ProgressCallback = (progress: protocol.ProgressInformation) => void;
 
+/**
+ * Cancellation token as passed to the LSP request handlers.
+ */
+export interface CancellationToken {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+// Time in milliseconds to wait for the response of a command, progress messages restart the timer
+const requestTimeouts: { [command: string]: number } = {
+    "load_model": 10 * 60 * 1000,
+    "find_elements": 60 * 1000,
+    "content_complete": 15 * 1000,
+    "link_targets": 15 * 1000,
+    "context_info": 5 * 1000,
+    "version": 5 * 1000,
+    "stop": 5 * 1000,
+};
+const defaultRequestTimeout = 30 * 1000;
+
 class PendingRequest {
     public invocationId = 0;
     public command = "";
     public progressCallback?: ProgressCallback;
     public resolveFunc: Function = () => { };
     public rejectFunc: Function = () => { };
+    public timeout?: NodeJS.Timeout;
+    public cancellation?: { dispose(): void };
 }
 
 enum ClientState {
@@ -25,13 +51,124 @@ enum ClientState {
     Starting,
     StartFailed,
     Running,
+    Reconnecting,
     Stopping,
     Stopped
 }
 
+export type ServiceState = "starting" | "running" | "reconnecting" | "failed" | "stopped";
+
+export interface ServiceStatus {
+    state: ServiceState;
+
+    /**
+     * Why the service is reconnecting, failed or stopped
+     */
+    reason?: string;
+
+    /**
+     * The error the start of the service failed with
+     */
+    error?: Error;
+}
+
+export interface ClientOptions {
+    /**
+     * Called whenever the state of the service changes
+     */
+    onStatusChange?: (client: Client, status: ServiceStatus) => void;
+
+    /**
+     * Command line which replaces the executable of the config entry, the part up to `rtext-service`.
+     * The arguments of the entry are appended. Command lines are run without a shell, see `launchCommand`.
+     */
+    command?: string;
+
+    /**
+     * Arguments appended to the command line
+     */
+    args?: string[];
+
+    /**
+     * Environment variables set in addition to the ones of the server process
+     */
+    env?: { [name: string]: string };
+
+    /**
+     * Working directory of the service, relative to the directory of the config file.
+     * The directory of the config file by default.
+     */
+    cwd?: string;
+
+    /**
+     * Time in milliseconds the service has to report its port, `Client.startupTimeout` by default
+     */
+    startupTimeout?: number;
+
+    /**
+     * Regular expression matching the output line which reports the port of the service,
+     * the first group captures the port
+     */
+    portPattern?: string;
+
+    /**
+     * Regular expressions matching stderr output which makes the start fail immediately
+     */
+    fatalPatterns?: string[];
+
+    /**
+     * Address of a running service the client connects to instead of launching the service,
+     * see `parseServiceAddress`. The service is not stopped when the client stops.
+     */
+    attach?: string;
+
+    /**
+     * Replaces `${workspaceFolder}` in the command line, the environment variables and the working directory
+     */
+    workspaceFolder?: string | null;
+}
+
+/**
+ * Where a service listens, a TCP port or a Unix domain socket or Windows named pipe.
+ */
+export type ServiceAddress = { host: string, port: number } | { path: string };
+
+const LOCALHOST = "127.0.0.1";
+
+const defaultPortPattern = "listening on port (\\d+)";
+
+const defaultFatalPatterns = ["License checkout failed"];
+
+/**
+ * Parses the address of a service, `host:port` or just a port on the local host,
+ * everything else is taken as the path of a socket.
+ */
+export function parseServiceAddress(address: string): ServiceAddress {
+    const m = address.trim().match(/^(?:(.*):)?(\d+)$/);
+    if (m) {
+        return { host: m[1]?.replace(/^\[(.*)\]$/, "$1") || LOCALHOST, port: parseInt(m[2]) };
+    }
+    return { path: address.trim() };
+}
+
+function addressText(address: ServiceAddress): string {
+    return "path" in address ? address.path : `${address.host}:${address.port}`;
+}
+
+/**
+ * How the process of a service is spawned.
+ */
+export interface LaunchCommand {
+    command: string;
+    args: string[];
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+}
+
 export class Client implements ConnectorInterface {
 
     readonly config: ServiceConfig;
+    readonly options: ClientOptions;
 
     private _client = new net.Socket();
     private _invocationCounter = 0;
@@ -42,12 +179,55 @@ export class Client implements ConnectorInterface {
     private _serverProcess: cp.ChildProcess | undefined;
     private _pendingRequests: PendingRequest[] = [];
     private _reconnectTimeout?: NodeJS.Timeout;
+    private _reconnectAttempts = 0;
+    private _reconnecting = false;
+    private _starting = false;
+    // set by `stop` while a start is pending, the start is aborted instead of setting the client running
+    private _startCancelled = false;
+    private _closeReason?: string;
     private _keepAliveTask?: NodeJS.Timeout;
-    private _responseData: Buffer = Buffer.alloc(0);
-    private static LOCALHOST = "127.0.0.1";
-
-    constructor(config: ServiceConfig) {
+    private _framer = new message.MessageFramer();
+    private _capabilities: protocol.ServiceCapabilities = protocol.serviceCapabilities(protocol.PROTOCOL_VERSION);
+
+    /**
+     * Interval of the keep alive `version` requests in milliseconds
+     */
+    public static keepAliveInterval = 30 * 1000;
+
+    /**
+     * Delay before the first reconnect after the connection was closed in milliseconds,
+     * doubled for every further attempt
+     */
+    public static reconnectDelay = 3000;
+
+    /**
+     * Upper limit of the delay between reconnects in milliseconds
+     */
+    public static maxReconnectDelay = 60 * 1000;
+
+    /**
+     * Number of reconnects after which the service is considered failed
+     */
+    public static maxReconnectAttempts = 5;
+
+    /**
+     * Time in milliseconds a launched service has to report its port
+     */
+    public static startupTimeout = 60 * 1000;
+
+    /**
+     * Number of output lines of the service attached to the error if its start fails
+     */
+    public static startupOutputLines = 20;
+
+    /**
+     * Time in milliseconds an attached service has to close the connection, it is destroyed afterwards
+     */
+    public static disconnectTimeout = 5000;
+
+    constructor(config: ServiceConfig, options: ClientOptions = {}) {
         this.config = config;
+        this.options = options;
         this._state = ClientState.Initial;
     }
 
@@ -66,52 +246,164 @@ export class Client implements ConnectorInterface {
         }
 
         this._state = ClientState.Starting;
-
-        return this._onStart = this.runRTextService(this.config).then(port => {
-            this._client = new net.Socket();
-            this._client.on("data", (data) => this.onData(data));
-            this._client.on("close", () => this.onClose());
-            this._client.on("error", (error) => this.onError(error));
-
-            this._keepAliveTask = setInterval(() => {
-                console.log("Sending keep alive `version` request");
-                this.getVersion()
-                    .then((response) => {
-                        console.log("Keep alive, got version " + response.version);
-                    }).catch(error => {
-                        console.error(error.message);
-                    });
-            }, 30 * 1000);
-
-            this._state = ClientState.Running;
-
-            return new Promise<void>(resolve => {
-                this._client.connect(port, Client.LOCALHOST, () => {
-                    this.onConnect(port, Client.LOCALHOST);
-                    resolve();
-                });
-            });
+        this._starting = true;
+        this._startCancelled = false;
+        this.setStatus({ state: "starting" });
+
+        // an attached service is already running
+        const connected = this.options.attach !== undefined
+            ? Promise.resolve().then(() => this.connect(parseServiceAddress(this.options.attach as string)))
+            : this.runRTextService(this.config).then(port => this.connect({ host: LOCALHOST, port }));
+        return this._onStart = connected.then(() => {
+            return this.negotiateVersion();
+        }).then(() => {
+            this._reconnectAttempts = 0;
+            this.startKeepAlive();
+            this.setStatus({ state: "running" });
         }).catch(error => {
+            // the client is stopped, the stop sets the state
+            if (this._startCancelled) {
+                throw error;
+            }
             this._state = ClientState.StartFailed;
             this._onStart = undefined;
+            this.checkProcessDied(this._serverProcess);
+            this._serverProcess = undefined;
+            if (!this._reconnecting) {
+                this.setStatus({ state: "failed", reason: error.message, error });
+            }
             throw error;
+        }).finally(() => {
+            this._starting = false;
+        });
+    }
+
+    private startCancelledError(): Error {
+        return new Error(`Start of service ${this.config.command} was cancelled`);
+    }
+
+    private connect(address: ServiceAddress): Promise<void> {
+        if (this._startCancelled) {
+            return Promise.reject(this.startCancelledError());
+        }
+        this._client = new net.Socket();
+        this._client.on("data", (data) => this.onData(data));
+        this._client.on("close", () => this.onClose());
+        this._client.on("error", (error) => this.onError(error));
+
+        return new Promise<void>((resolve, reject) => {
+            const onConnectError = (error: Error) => reject(new Error(`Connecting to ${addressText(address)} failed: ${error.message}`));
+            this._client.once("error", onConnectError);
+            this._client.connect(address, () => {
+                this._client.removeListener("error", onConnectError);
+                if (this._startCancelled) {
+                    this._client.destroy();
+                    reject(this.startCancelledError());
+                    return;
+                }
+                this._state = ClientState.Running;
+                this.onConnect(address);
+                resolve();
+            });
         });
     }
 
-    public getContextInformation(context: context.Context): Promise<protocol.ContextInformationResponse> {
-        return this.send({ command: "context_info", context: context.lines, column: context.pos });
+    private startKeepAlive() {
+        this._keepAliveTask = setInterval(() => {
+            logger.debug("Sending keep alive `version` request");
+            this.getVersion()
+                .then((response) => {
+                    logger.debug("Keep alive, got version " + response.version);
+                }).catch(error => {
+                    // a protocol 0 service doesn't know the command but is alive
+                    if (!(error instanceof UnknownCommandError)) {
+                        logger.error(error.message);
+                    }
+                });
+        }, Client.keepAliveInterval);
+    }
+
+    private setStatus(status: ServiceStatus) {
+        this.options.onStatusChange?.(this, status);
     }
 
-    public getContentCompletion(context: context.Context): Promise<protocol.ContentCompleteResponse> {
-        return this.send({ command: "content_complete", context: context.lines, column: context.pos });
+    // Starts the service again after a delay growing with each attempt, until the maximum number of attempts
+    private scheduleReconnect(reason: string) {
+        if (this._reconnectAttempts >= Client.maxReconnectAttempts) {
+            this._state = ClientState.StartFailed;
+            this._reconnectAttempts = 0;
+            this.setStatus({ state: "failed", reason: `${reason}, gave up after ${Client.maxReconnectAttempts} reconnect attempts` });
+            return;
+        }
+        const delay = Math.min(Client.reconnectDelay * 2 ** this._reconnectAttempts, Client.maxReconnectDelay);
+        this._reconnectAttempts++;
+        this._state = ClientState.Reconnecting;
+        this.setStatus({ state: "reconnecting", reason });
+        logger.info(`Reconnecting in ${delay} ms, attempt ${this._reconnectAttempts} of ${Client.maxReconnectAttempts}`);
+        this._reconnectTimeout = setTimeout(() => {
+            this._reconnectTimeout = undefined;
+            this._reconnecting = true;
+            this.start().catch((error: Error) => {
+                logger.error(`Reconnecting failed: ${error.message}`);
+                if (this._state === ClientState.StartFailed) {
+                    this.scheduleReconnect(error.message);
+                }
+            }).finally(() => {
+                this._reconnecting = false;
+            });
+        }, delay);
     }
 
-    public getLinkTargets(context: context.Context): Promise<protocol.LinkTargetsResponse> {
-        return this.send({ command: "link_targets", context: context.lines, column: context.pos });
+    /**
+     * Features of the service according to the negotiated protocol version.
+     */
+    public get capabilities(): protocol.ServiceCapabilities {
+        return this._capabilities;
     }
 
-    public findElements(pattern: string): Promise<protocol.FindElementsResponse> {
-        return this.send({ command: "find_elements", search_pattern: pattern });
+    // Prefix of the service output in the log
+    private get outputPrefix(): string {
+        return `rtext service ${path.basename(this.config.file)}`;
+    }
+
+    // Requests are sent with the latest version first, a service which only supports
+    // protocol 0 doesn't know the `version` command
+    private async negotiateVersion(): Promise<void> {
+        this._capabilities = protocol.serviceCapabilities(protocol.PROTOCOL_VERSION);
+        let version: number;
+        try {
+            const response = await this.getVersion();
+            version = Math.min(response.version, protocol.PROTOCOL_VERSION);
+        } catch (error) {
+            if (error instanceof UnknownCommandError || error instanceof UnsupportedVersionError) {
+                version = 0;
+            } else {
+                // the service is running, keep assuming the latest version
+                logger.error(`Protocol version negotiation failed: ${(error as Error).message}`);
+                version = protocol.PROTOCOL_VERSION;
+            }
+        }
+        if (this._startCancelled) {
+            throw this.startCancelledError();
+        }
+        this._capabilities = protocol.serviceCapabilities(version);
+        logger.info(`Negotiated protocol version ${version}`);
+    }
+
+    public getContextInformation(context: context.Context, token?: CancellationToken): Promise<protocol.ContextInformationResponse> {
+        return this.send({ command: "context_info", context: context.lines, column: context.pos }, undefined, token);
+    }
+
+    public getContentCompletion(context: context.Context, token?: CancellationToken): Promise<protocol.ContentCompleteResponse> {
+        return this.send({ command: "content_complete", context: context.lines, column: context.pos }, undefined, token);
+    }
+
+    public getLinkTargets(context: context.Context, token?: CancellationToken): Promise<protocol.LinkTargetsResponse> {
+        return this.send({ command: "link_targets", context: context.lines, column: context.pos }, undefined, token);
+    }
+
+    public findElements(pattern: string, token?: CancellationToken): Promise<protocol.FindElementsResponse> {
+        return this.send({ command: "find_elements", search_pattern: pattern }, undefined, token);
     }
 
     public async stop(): Promise<void> {
@@ -129,7 +421,9 @@ export class Client implements ConnectorInterface {
 
         if (this._reconnectTimeout) {
             clearTimeout(this._reconnectTimeout);
+            this._reconnectTimeout = undefined;
         }
+        this._reconnectAttempts = 0;
 
         if (this._keepAliveTask) {
             clearInterval(this._keepAliveTask);
@@ -138,12 +432,41 @@ export class Client implements ConnectorInterface {
 
         this._state = ClientState.Stopping;
 
-        return this._onStop = this.stopService().finally(() => {
+        // a service which is not connected can't be asked to stop, its process is killed.
+        // An attached service keeps running, only the connection is closed
+        let stopped = Promise.resolve();
+        if (this._connected) {
+            stopped = this.options.attach !== undefined ? this.disconnect() : this.stopService();
+        }
+        // a pending start is aborted, the stop is done when it gave up
+        if (this._starting) {
+            this._startCancelled = true;
+            if (!this._connected) {
+                this._serverProcess?.kill();
+            }
+            const start = this._onStart;
+            stopped = stopped.finally(() => start?.catch(() => undefined));
+        }
+        return this._onStop = stopped.catch((error: Error) => {
+            logger.error(`Stopping the service failed: ${error.message}`);
+        }).finally(() => {
             this.checkProcessDied(this._serverProcess);
             this._serverProcess = undefined;
             this._state = ClientState.Stopped;
             this._onStart = undefined;
             this._onStop = undefined;
+            this.setStatus({ state: "stopped" });
+        });
+    }
+
+    private disconnect(): Promise<void> {
+        return new Promise<void>((resolve) => {
+            const timer = setTimeout(() => this._client.destroy(), Client.disconnectTimeout);
+            this._client.once("close", () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            this._client.end();
         });
     }
 
@@ -164,8 +487,8 @@ export class Client implements ConnectorInterface {
         }, 2000);
     }
 
-    public loadModel(progressCallback?: ProgressCallback): Promise<protocol.LoadModelResponse> {
-        return this.send({ command: "load_model" }, progressCallback);
+    public loadModel(progressCallback?: ProgressCallback, token?: CancellationToken): Promise<protocol.LoadModelResponse> {
+        return this.send({ command: "load_model" }, progressCallback, token);
     }
 
     public stopService(): Promise<void> {
@@ -176,16 +499,20 @@ export class Client implements ConnectorInterface {
         return this.send({ command: "version" });
     }
 
-    public send(data: any, progressCallback?: ProgressCallback): Promise<any> {
+    public send(data: any, progressCallback?: ProgressCallback, token?: CancellationToken): Promise<any> {
         if (!this._connected) {
-            return Promise.reject(new Error("RText service is not connected"));
+            return Promise.reject(new ConnectionClosedError("RText service is not connected"));
+        }
+
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new RequestCancelledError(data.command));
         }
 
         data.type = "request";
-        data.version = 1;
+        data.version = this._capabilities.protocolVersion;
         data.invocation_id = this._invocationCounter;
 
-        console.debug("Tx: " + JSON.stringify(data));
+        logger.traceMessage("Tx", data);
 
         const request = new PendingRequest();
         request.invocationId = this._invocationCounter;
@@ -201,26 +528,58 @@ export class Client implements ConnectorInterface {
         return new Promise<any>((resolve, reject) => {
             request.resolveFunc = resolve;
             request.rejectFunc = reject;
+            this.startRequestTimeout(request);
+            request.cancellation = token?.onCancellationRequested(() => {
+                this.dropRequest(request, new RequestCancelledError(request.command));
+            });
         });
     }
 
+    private startRequestTimeout(request: PendingRequest) {
+        if (request.timeout) {
+            clearTimeout(request.timeout);
+        }
+        const timeout = requestTimeouts[request.command] ?? defaultRequestTimeout;
+        request.timeout = setTimeout(() => {
+            this.dropRequest(request, new RequestTimeoutError(request.command, timeout));
+        }, timeout);
+    }
+
+    // Removes a request from the pending ones, a late response to it is discarded
+    private removeRequest(request: PendingRequest) {
+        if (request.timeout) {
+            clearTimeout(request.timeout);
+            request.timeout = undefined;
+        }
+        request.cancellation?.dispose();
+        request.cancellation = undefined;
+        const index = this._pendingRequests.indexOf(request);
+        if (index !== -1) {
+            this._pendingRequests.splice(index, 1);
+        }
+    }
+
+    private dropRequest(request: PendingRequest, error: Error) {
+        this.removeRequest(request);
+        request.rejectFunc(error);
+    }
+
     private onError(error: Error) {
-        console.log("Connection error: " + error.message);
+        logger.error("Connection error: " + error.message);
     }
 
-    private onConnect(port: number, host: string) {
+    private onConnect(address: ServiceAddress) {
         this._connected = true;
-        console.log("Connected to " + host + ":" + port);
+        logger.info("Connected to " + addressText(address));
     }
 
     private onClose() {
         this._connected = false;
-        console.log("Connection closed");
+        this._framer.reset();
+        logger.info("Connection closed");
 
-        for (const request of this._pendingRequests) {
-            if (request.rejectFunc) {
-                request.rejectFunc(new Error('RText service connection closed'));
-            }
+        for (const request of [...this._pendingRequests]) {
+            this.dropRequest(request, new ConnectionClosedError());
         }
 
         if (this._keepAliveTask) {
@@ -228,17 +587,28 @@ export class Client implements ConnectorInterface {
             this._keepAliveTask = undefined;
         }
 
+        const reason = this._closeReason ?? "Connection to the service closed";
+        this._closeReason = undefined;
         if (this._state == ClientState.Running) {
-            this._reconnectTimeout = setTimeout(() => { this.start(); }, 3000);
+            // the previous start is done, otherwise `start` would just return it
+            this._onStart = undefined;
+            // a new service is started, make sure the previous one is gone
+            this.checkProcessDied(this._serverProcess);
+            this._serverProcess = undefined;
+            this.scheduleReconnect(reason);
         }
     }
 
-    private onData(data: any) {
-        this._responseData = Buffer.concat([this._responseData, data], this._responseData.length + data.length);
-        let obj: any;
-        while (obj = message.extract(this._responseData)) {
-            this._responseData = this._responseData.slice(obj._dataLength);
-            console.debug("Rx: " + JSON.stringify(obj));
+    private onData(data: Buffer) {
+        let messages: message.ServiceMessage[];
+        try {
+            messages = this._framer.push(data);
+        } catch (error) {
+            logger.error((error as Error).message);
+            return;
+        }
+        for (const obj of messages) {
+            logger.traceMessage("Rx", obj);
 
             const found = this._pendingRequests.findIndex((request) => {
                 return request.invocationId === obj.invocation_id;
@@ -247,70 +617,144 @@ export class Client implements ConnectorInterface {
             if (found !== -1) {
                 const pending = this._pendingRequests[found];
                 if (obj.type === "response") {
-                    if (pending.resolveFunc) {
-                        pending.resolveFunc(obj);
+                    this.removeRequest(pending);
+                    pending.resolveFunc(obj);
+                } else if (obj.type === "progress") {
+                    this.startRequestTimeout(pending);
+                    if (pending.progressCallback) {
+                        pending.progressCallback(obj as protocol.ProgressInformation);
                     }
-                    this._pendingRequests.splice(found, 1);
-                } else if (obj.type === "progress" &&
-                    pending.progressCallback) {
-                    pending.progressCallback(obj);
                 } else if (obj.type === "unknown_command_error") {
-                    console.log("Error: unknown command - " + obj.command);
-                    this._pendingRequests.splice(found, 1);
+                    logger.warn("Unknown command " + obj.command);
+                    this.dropRequest(pending, new UnknownCommandError(typeof obj.command === "string" ? obj.command : pending.command));
                 } else if (obj.type === "unsupported_version") {
-                    console.log("Error: unsupported version " + obj.version);
-                    this._pendingRequests.splice(found, 1);
+                    logger.warn("Unsupported version " + obj.version);
+                    this.dropRequest(pending, new UnsupportedVersionError(Number(obj.version)));
                 }
+            } else {
+                logger.debug(`Discarding ${obj.type} of dropped request ${obj.invocation_id}`);
             }
         }
     }
 
-    private transformCommand(command: string): string {
-        const m = command.match(/^cmd\s*\/c\s*/);
-        if (m && os.platform() !== 'win32') {
-            command = command.substring(m[0].length);
+    // Only Windows runs the service through `cmd /c`
+    private transformCommand(tokens: string[]): string[] {
+        const wrapped = tokens.length > 1 && tokens[0].toLowerCase() === 'cmd' && tokens[1].toLowerCase() === '/c';
+        if (wrapped && os.platform() !== 'win32') {
+            return tokens.slice(2);
+        } else if (!wrapped && os.platform() === 'win32') {
+            return ['cmd', '/c', ...tokens];
+        }
+        return tokens;
+    }
+
+    /**
+     * The command, arguments, working directory and environment the service of a config is launched with.
+     * The command line is tokenized respecting double-quoted arguments, variables are expanded in each argument.
+     * The service is spawned without a shell, so shell syntax like `$VAR`, `~` or pipes is not interpreted;
+     * `${env:VAR}` and `${workspaceFolder}` are expanded instead.
+     */
+    public launchCommand(config: ServiceConfig): LaunchCommand {
+        const expand = (text: string) => expand_variables(text, this.options.workspaceFolder);
+        // the command of the options replaces the executable, the arguments of the entry are kept
+        const commandTokens = this.options.command?.trim()
+            ? [...tokenize_command(this.options.command), ...command_arguments(config.command)]
+            : tokenize_command(config.command);
+        const tokens = commandTokens.map((t) => expand(t.text));
+        tokens.push(...(this.options.args ?? []).map(expand));
+        if (tokens.length === 0 || tokens[0] === '') {
+            throw new ServiceStartError(`Command line of service ${config.command} is empty after expanding its variables`, []);
         }
-        else if (!m && os.platform() === 'win32') {
-            command = "cmd \/c " + command;
+        const [command, ...args] = this.transformCommand(tokens);
+
+        const configDir = path.dirname(config.file);
+        const cwd = this.options.cwd ? path.resolve(configDir, expand(this.options.cwd)) : configDir;
+        const env: NodeJS.ProcessEnv = { ...process.env };
+        for (const [name, value] of Object.entries(this.options.env ?? {})) {
+            env[name] = expand(value);
         }
-        return command;
+        return { command, args, cwd, env };
     }
 
     private async runRTextService(config: ServiceConfig): Promise<number> {
         return new Promise<number>((resolve, reject) => {
-            const configCommand = this.transformCommand(config.command.trim());
-            const command = configCommand.split(' ')[0];
-            const args = configCommand.split(' ').slice(1);
-            const cwd = path.dirname(config.file);
-            console.log(`Working directory ${cwd}`);
-            console.log(`Run ${configCommand}`);
-            const serverProcess = cp.spawn(command, args, { cwd: cwd, shell: true });
+            const launch = this.launchCommand(config);
+            const portPattern = new RegExp(this.options.portPattern ?? defaultPortPattern);
+            const fatalPatterns = (this.options.fatalPatterns ?? defaultFatalPatterns).map((p) => new RegExp(p));
+            const timeout = this.options.startupTimeout ?? Client.startupTimeout;
+            // last output lines, attached to the error if the start fails
+            const output: string[] = [];
+            let settled = false;
+            let timer: NodeJS.Timeout | undefined;
+
+            const fail = (message: string, exitCode?: number | null) => {
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timer);
+                    reject(new ServiceStartError(message, [...output], exitCode));
+                }
+            };
+            const addOutput = (text: string) => {
+                output.push(...text.split(/\r?\n/).filter((line) => line.trim().length > 0));
+                output.splice(0, Math.max(output.length - Client.startupOutputLines, 0));
+            };
+
+            logger.info(`Working directory ${launch.cwd}`);
+            logger.info(`Run ${[launch.command, ...launch.args].map((a) => /\s/.test(a) ? `"${a}"` : a).join(' ')}`);
+            let serverProcess: cp.ChildProcessWithoutNullStreams;
+            try {
+                serverProcess = cp.spawn(launch.command, launch.args, { cwd: launch.cwd, env: launch.env });
+            } catch (error) {
+                fail(`Failed to run service ${this.config.command}, reason: ${(error as Error).message}`);
+                return;
+            }
             if (!serverProcess || !serverProcess.pid) {
-                reject(new Error(`Launching server using command ${this.config.command} failed.`));
+                fail(`Launching server using command ${this.config.command} failed.`);
             }
             this._serverProcess = serverProcess;
-            serverProcess.on('exit', () => {
-                if (this._state === ClientState.Starting) {
-                    reject(new Error(`Launching server using command ${this.config.command} failed.`));
+            if (!settled) {
+                timer = setTimeout(() => {
+                    fail(`Service ${this.config.command} didn't report its port within ${timeout / 1000} seconds`);
+                    serverProcess.kill();
+                }, timeout);
+            }
+            serverProcess.on('exit', (code, signal) => {
+                const exitStatus = code !== null ? `code ${code}` : `signal ${signal}`;
+                if (this._state === ClientState.Running && this._serverProcess === serverProcess) {
+                    // the connection might stay open for a while, don't wait for it to close
+                    this._closeReason = `Service process exited unexpectedly with ${exitStatus}`;
+                    logger.error(this._closeReason);
+                    this._client.destroy();
                 }
             });
+            // all output is read when the streams are closed
+            serverProcess.on('close', (code, signal) => {
+                const exitStatus = code !== null ? `code ${code}` : `signal ${signal}`;
+                fail(`Service ${this.config.command} exited with ${exitStatus} before reporting its port`, code);
+            });
             serverProcess.on('error', (error) => {
-                reject(new Error(`Failed to run service ${this.config.command}, reason: ${error.message}`));
+                fail(`Failed to run service ${this.config.command}, reason: ${error.message}`);
             });
             serverProcess.stderr.on('data', (data: any) => {
-                const stderr = data.toString();
-                console.error(stderr);
-                if (stderr.match(/License checkout failed/)) {
-                    reject(new Error(stderr));
+                const stderr: string = data.toString();
+                logger.serviceOutput(this.outputPrefix, stderr, "stderr");
+                addOutput(stderr);
+                // a running service which reports an error keeps running, only a failing start is aborted
+                const fatal = !settled && fatalPatterns.find((p) => p.test(stderr));
+                if (fatal) {
+                    fail(`Service ${this.config.command} failed: ${stderr.match(fatal)?.[0]}`);
+                    serverProcess.kill();
                 }
             });
             serverProcess.stdout.on('data', (data: any) => {
                 const stdout: string = data.toString();
-                console.log(stdout);
-                const foundPort = stdout.match(/.*listening on port (\d*)/);
-                if (foundPort) {
-                    const port: number = parseInt(foundPort[1]);
-                    resolve(port);
+                logger.serviceOutput(this.outputPrefix, stdout, "stdout");
+                addOutput(stdout);
+                const foundPort = stdout.match(portPattern);
+                if (foundPort && !settled) {
+                    settled = true;
+                    clearTimeout(timer);
+                    resolve(parseInt(foundPort[1]));
                 }
             });
         });
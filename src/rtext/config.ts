@@ -6,18 +6,36 @@ export interface ServiceConfig {
     patterns: string[];
     command: string;
     paths: string[];
+
+    /**
+     * Line of the pattern list in the config file, starting at 1
+     */
+    line?: number;
+}
+
+export interface ConfigError {
+    /**
+     * Line in the config file, starting at 1
+     */
+    line: number;
+    code: string;
+    message: string;
+}
+
+export interface ConfigParseResult {
+    configs: ServiceConfig[];
+    errors: ConfigError[];
 }
 
 export function find_service_config(file: string): ServiceConfig | undefined {
     let last_dir;
     let dir = path.resolve(path.dirname(file));
-    const search_pattern = file_pattern(file);
     while (dir != last_dir) {
-        const config_file = `${dir}/.rtext`;
+        const config_file = path.join(dir, '.rtext');
         if (fs.existsSync(config_file)) {
             const configs = parse_config_file(config_file);
             const config = configs.find(s => {
-                return s.patterns.some(p => p === search_pattern);
+                return s.patterns.some(p => file_matches_pattern(file, p));
             });
             if (config) {
                 return config;
@@ -37,59 +55,143 @@ export function file_pattern(file: string): string {
     }
 }
 
-export function parse_config_file(file: string): ServiceConfig[] {
+// Converts a glob pattern to a regular expression, supporting `*`, `?` and character classes like `[a-z]` or `[!0-9]`
+function glob_to_regexp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        const class_end = c === '[' ? pattern.indexOf(']', i + 2) : -1;
+        if (c === '*') {
+            source += '.*';
+        } else if (c === '?') {
+            source += '.';
+        } else if (class_end !== -1) {
+            const chars = pattern.substring(i + 1, class_end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+            source += `[${chars}]`;
+            i = class_end;
+        } else {
+            source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Tells if the name of a file matches a glob pattern of a config, e.g. `*.txt` or `model_*.txt`.
+ */
+export function file_matches_pattern(file: string, pattern: string): boolean {
+    return glob_to_regexp(pattern).test(path.basename(file));
+}
+
+/**
+ * Parses the contents of a `.rtext` file. Each entry is a line with a comma separated list of
+ * file patterns ending with `:` followed by the command line of the service.
+ * Lines starting with `#` are comments. Malformed entries are skipped and reported as errors.
+ */
+export function parse_config(contents: string, file: string): ConfigParseResult {
     const configs: ServiceConfig[] = [];
-    const contents = fs.readFileSync(file, 'utf-8');
-    if (contents) {
-        const lines = contents.split('\n');
-        let l = lines.shift();
-        while (l) {
-            const found = l.match(/^(.+):\s*$/);
-            if (found) {
-                const patterns = found[1].split(",").map(s => s.trim());
-                l = lines.shift();
-                if (l && /\S/.test(l) && !(/:\s*$/.test(l))) {
-                    const command = l;
-                    const paths = extract_paths(command);
-                    l = lines.shift();
-                    while (l !== undefined && /\S/.test(l) && !(/:\s*$/.test(l))) {
-                        l = lines.shift();
-                    }
-                    configs.push({ file, patterns, command, paths });
-                } else {
-                    // no command line, skip
-                }
-            } else {
-                l = lines.shift();
+    const errors: ConfigError[] = [];
+    // the pattern list waiting for its command line
+    let header: { patterns: string[], line: number } | undefined;
+
+    const missing_command = (h: { patterns: string[], line: number }) => {
+        errors.push({ line: h.line, code: 'missing-command', message: `Missing command line for ${h.patterns.join(', ')}` });
+    };
+
+    contents.split(/\r?\n/).forEach((text, index) => {
+        const line = index + 1;
+        if (/^\s*#/.test(text)) {
+            return;
+        }
+        if (!/\S/.test(text)) {
+            if (header) {
+                missing_command(header);
+                header = undefined;
             }
+            return;
+        }
+        const found = text.match(/^(.+):\s*$/);
+        if (found) {
+            if (header) {
+                missing_command(header);
+            }
+            const patterns = found[1].split(",").map(s => s.trim());
+            if (patterns.some(p => p.length === 0)) {
+                errors.push({ line, code: 'empty-pattern', message: 'Empty file pattern' });
+            }
+            header = { patterns: patterns.filter(p => p.length > 0), line };
+        } else if (header) {
+            const command = text.trim();
+            if (header.patterns.length > 0) {
+                configs.push({ file, patterns: header.patterns, command, paths: extract_paths(command), line: header.line });
+            }
+            header = undefined;
+        } else {
+            errors.push({ line, code: 'unexpected-line', message: "Unexpected line, expected a list of file patterns ending with ':'" });
         }
+    });
+    if (header) {
+        missing_command(header);
     }
-    return configs;
+    return { configs, errors };
+}
+
+export function read_config_file(file: string): ConfigParseResult {
+    return parse_config(fs.readFileSync(file, 'utf-8'), file);
+}
+
+export function parse_config_file(file: string): ServiceConfig[] {
+    return read_config_file(file).configs;
 }
 
 // Flags that consume the next token as their value.
-const FLAGS_WITH_VALUE = new Set(['-m', '-l', '--text-ext', '--macro-path', '--def-path', '--timeout']);
+export const FLAGS_WITH_VALUE = new Set(['-m', '-l', '--text-ext', '--macro-path', '--def-path', '--timeout']);
 
-// Extract positional path arguments from a command line.
-// Skips executable tokens at the start, then collects remaining positional tokens as paths.
-function extract_paths(command: string): string[] {
-    // Tokenize respecting double-quoted strings
-    const tokens: string[] = [];
+export interface CommandToken {
+    /**
+     * Text of the token, without the quotes of a quoted token
+     */
+    text: string;
+    start: number;
+    end: number;
+}
+
+// Tokenize a command line respecting double-quoted strings
+export function tokenize_command(command: string): CommandToken[] {
+    const tokens: CommandToken[] = [];
     const tokenRegex = /"([^"]*)"|(\S+)/g;
     let match: RegExpExecArray | null;
     while ((match = tokenRegex.exec(command)) !== null) {
-        tokens.push(match[1] !== undefined ? match[1] : match[2]);
+        const text = match[1] !== undefined ? match[1] : match[2];
+        tokens.push({ text, start: match.index, end: match.index + match[0].length });
     }
+    return tokens;
+}
 
-    const paths: string[] = [];
+// Replace `${env:VAR}` by the value of the environment variable and `${workspaceFolder}` by the workspace folder.
+// Unknown variables are replaced by an empty string.
+export function expand_variables(text: string, workspace_folder?: string | null, env: NodeJS.ProcessEnv = process.env): string {
+    return text.replace(/\$\{(env:(\w+)|workspaceFolder)\}/g, (_match, _variable: string, env_name?: string) => {
+        if (env_name !== undefined) {
+            return env[env_name] ?? '';
+        }
+        return workspace_folder ?? '';
+    });
+}
+
+// Positional path arguments of a command line.
+// Skips executable tokens at the start, then collects remaining positional tokens as paths.
+export function path_tokens(command: string): CommandToken[] {
+    const tokens = tokenize_command(command);
+    const paths: CommandToken[] = [];
     let pastExecutable = false;
     let i = 0;
     while (i < tokens.length) {
         const token = tokens[i];
-        if (!pastExecutable && token.endsWith('rtext-service')) {
+        if (!pastExecutable && token.text.endsWith('rtext-service')) {
             pastExecutable = true;
             i++;
-        } else if (FLAGS_WITH_VALUE.has(token)) {
+        } else if (FLAGS_WITH_VALUE.has(token.text)) {
             // known flag — skip flag and its value
             i += 2;
         } else {
@@ -102,3 +204,16 @@ function extract_paths(command: string): string[] {
     }
     return paths;
 }
+
+// Arguments of a command line, the tokens after the executable prefix which ends with `rtext-service`.
+// A command line without `rtext-service` has no known arguments.
+export function command_arguments(command: string): CommandToken[] {
+    const tokens = tokenize_command(command);
+    const executable = tokens.findIndex(t => t.text.endsWith('rtext-service'));
+    return executable === -1 ? [] : tokens.slice(executable + 1);
+}
+
+// Extract positional path arguments from a command line.
+function extract_paths(command: string): string[] {
+    return path_tokens(command).map(t => t.text);
+}
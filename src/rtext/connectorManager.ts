@@ -1,10 +1,11 @@
 import * as fs from 'fs';
 import * as crypto from 'crypto';
+import * as path from 'path';
 
-import { ServiceConfig, find_service_config, file_pattern } from './config'
+import { ServiceConfig, find_service_config } from './config'
 
-export interface ConnectorConstructor<T = unknown> {
-    new(config: ServiceConfig, data?: T): ConnectorInterface
+export interface ConnectorConstructor<T = unknown, C extends ConnectorInterface = ConnectorInterface> {
+    new(config: ServiceConfig, data?: T): C
 }
 
 export interface ConnectorInterface {
@@ -13,56 +14,82 @@ export interface ConnectorInterface {
     stop(): void;
 }
 
-interface ConnectorDesc {
-    connector: ConnectorInterface;
+interface ConnectorDesc<C extends ConnectorInterface> {
+    connector: C;
     checksum?: string;
 }
 
-export class ConnectorManager<T = unknown> {
-    private _connectorDescs: Map<string, ConnectorDesc> = new Map();
-    private _connectorCtor: ConnectorConstructor<T>;
+// The same config file may be spelled with different separators or case, e.g. on Windows
+function configFileKey(file: string): string {
+    return path.normalize(file).toLowerCase();
+}
+
+export class ConnectorManager<T = unknown, C extends ConnectorInterface = ConnectorInterface> {
+    private _connectorDescs: Map<string, ConnectorDesc<C>> = new Map();
+    private _connectorCtor: ConnectorConstructor<T, C>;
 
-    constructor(ctor: ConnectorConstructor<T>) {
+    constructor(ctor: ConnectorConstructor<T, C>) {
         this._connectorCtor = ctor;
     }
 
-    public connectorForFile(file: string, data?: T): ConnectorInterface | undefined {
+    public connectorForFile(file: string, data?: T): C | undefined {
         const config = find_service_config(file);
         if (config) {
-            const filePattern = file_pattern(file);
-            const key = this.descKey(config, filePattern);
-            const desc = this._connectorDescs.get(key);
-            if (desc) {
-                if (desc.checksum == this.configChecksum(config)) {
-                    return desc.connector;
-                } else {
-                    desc.connector.stop();
-                    return this.createConnector(config, filePattern, data);
-                }
+            return this.connectorForConfig(config, data);
+        }
+    }
+
+    /**
+     * Returns the connector of a config entry, the files matching any of its patterns share it.
+     */
+    public connectorForConfig(config: ServiceConfig, data?: T): C {
+        const key = this.descKey(config);
+        const desc = this._connectorDescs.get(key);
+        if (desc) {
+            if (desc.checksum == this.configChecksum(config)) {
+                return desc.connector;
             } else {
-                return this.createConnector(config, filePattern, data);
+                desc.connector.stop();
+                return this.createConnector(config, data);
             }
+        } else {
+            return this.createConnector(config, data);
         }
     }
 
-    public allConnectors(): ConnectorInterface[] {
-        const cons: ConnectorInterface[] = [];
-        this._connectorDescs.forEach((desc: ConnectorDesc) => {
+    public allConnectors(): C[] {
+        const cons: C[] = [];
+        this._connectorDescs.forEach((desc: ConnectorDesc<C>) => {
             cons.push(desc.connector);
         });
         return cons;
     }
 
-    private createConnector(config: ServiceConfig, pattern: string, data?: T): ConnectorInterface {
-        const key = this.descKey(config, pattern);
+    /**
+     * Removes the connectors of the entries of a config file, e.g. because it changed.
+     * The removed connectors are returned to be stopped by the caller.
+     */
+    public removeConnectors(configFile: string): C[] {
+        const removed: C[] = [];
+        this._connectorDescs.forEach((desc: ConnectorDesc<C>, key: string) => {
+            if (configFileKey(desc.connector.config.file) === configFileKey(configFile)) {
+                removed.push(desc.connector);
+                this._connectorDescs.delete(key);
+            }
+        });
+        return removed;
+    }
+
+    private createConnector(config: ServiceConfig, data?: T): C {
+        const key = this.descKey(config);
         const con = new this._connectorCtor(config, data);
-        const desc: ConnectorDesc = { connector: con, checksum: this.configChecksum(config) };
+        const desc: ConnectorDesc<C> = { connector: con, checksum: this.configChecksum(config) };
         this._connectorDescs.set(key, desc);
         return desc.connector;
     }
 
-    private descKey(config: ServiceConfig, pattern: string): string {
-        return config.file.toLowerCase() + ',' + pattern;
+    private descKey(config: ServiceConfig): string {
+        return configFileKey(config.file) + ',' + config.patterns.join(',');
     }
 
     private configChecksum(config: ServiceConfig): string | undefined {
@@ -0,0 +1,88 @@
+/**
+ * Base class of errors a request to the RText service is rejected with.
+ */
+export class ProtocolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The service doesn't know the requested command.
+ */
+export class UnknownCommandError extends ProtocolError {
+    readonly command: string;
+
+    constructor(command: string) {
+        super(`RText service doesn't support command ${command}`);
+        this.command = command;
+    }
+}
+
+/**
+ * The service doesn't support the protocol version of the request.
+ */
+export class UnsupportedVersionError extends ProtocolError {
+    readonly version: number;
+
+    constructor(version: number) {
+        super(`RText service doesn't support protocol version ${version}`);
+        this.version = version;
+    }
+}
+
+/**
+ * The connection to the service is closed or wasn't established yet.
+ */
+export class ConnectionClosedError extends ProtocolError {
+    constructor(message = "RText service connection closed") {
+        super(message);
+    }
+}
+
+/**
+ * The service didn't respond in time.
+ */
+export class RequestTimeoutError extends ProtocolError {
+    readonly command: string;
+
+    constructor(command: string, timeout: number) {
+        super(`Request ${command} timed out after ${timeout / 1000} seconds`);
+        this.command = command;
+    }
+}
+
+/**
+ * The request was cancelled before the response arrived.
+ */
+export class RequestCancelledError extends ProtocolError {
+    readonly command: string;
+
+    constructor(command: string) {
+        super(`Request ${command} cancelled`);
+        this.command = command;
+    }
+}
+
+/**
+ * The service process couldn't be launched or didn't report its port.
+ */
+export class ServiceStartError extends Error {
+    /**
+     * Exit code of the process if it exited, null if a signal ended it
+     */
+    readonly exitCode?: number | null;
+
+    /**
+     * Last lines the process printed to stdout and stderr
+     */
+    readonly output: string[];
+
+    constructor(message: string, output: string[], exitCode?: number | null) {
+        super(message);
+        this.name = new.target.name;
+        this.output = output;
+        this.exitCode = exitCode;
+    }
+}
@@ -1,5 +1,11 @@
 export type { ServiceConfig } from './config';
 export type { ConnectorInterface, ConnectorConstructor } from './connectorManager';
 export { ConnectorManager } from './connectorManager';
-export { Client } from './client';
-export type { ProgressCallback } from './client';
+export { Client, parseServiceAddress } from './client';
+export { Logger, LogLevel, TraceLevel, logger } from './logger';
+export type { LogSink } from './logger';
+export type { ProgressCallback, ClientOptions, LaunchCommand, ServiceAddress, ServiceState, ServiceStatus } from './client';
+export {
+    ProtocolError, UnknownCommandError, UnsupportedVersionError, ConnectionClosedError, RequestTimeoutError, RequestCancelledError,
+    ServiceStartError
+} from './errors';
@@ -0,0 +1,131 @@
+export enum LogLevel {
+    Debug,
+    Info,
+    Warning,
+    Error
+}
+
+/**
+ * How much of the traffic with the services is logged, like the LSP `$/setTrace` values.
+ */
+export enum TraceLevel {
+    Off,
+    Messages,
+    Verbose
+}
+
+/**
+ * Destination of the log, e.g. the console of the LSP connection.
+ */
+export interface LogSink {
+    error(message: string): void;
+    warn(message: string): void;
+    info(message: string): void;
+    log(message: string): void;
+}
+
+// Without a connection the log goes to stderr, stdout might be the LSP transport
+const stderrSink: LogSink = {
+    error: (message) => console.error(message),
+    warn: (message) => console.error(message),
+    info: (message) => console.error(message),
+    log: (message) => console.error(message),
+};
+
+const levels: { [name: string]: LogLevel } = {
+    "debug": LogLevel.Debug,
+    "info": LogLevel.Info,
+    "warning": LogLevel.Warning,
+    "error": LogLevel.Error,
+};
+
+const traceLevels: { [name: string]: TraceLevel } = {
+    "off": TraceLevel.Off,
+    "messages": TraceLevel.Messages,
+    "verbose": TraceLevel.Verbose,
+};
+
+export class Logger {
+    public sink: LogSink = stderrSink;
+    public level = LogLevel.Info;
+    public trace = TraceLevel.Off;
+
+    /**
+     * Payloads longer than this are truncated in the trace
+     */
+    public maxPayloadLength = 2000;
+
+    public setLevel(name: string | undefined) {
+        this.level = levels[name ?? ""] ?? LogLevel.Info;
+    }
+
+    public setTrace(name: string | undefined) {
+        this.trace = traceLevels[name ?? ""] ?? TraceLevel.Off;
+    }
+
+    public debug(message: string) {
+        if (this.level <= LogLevel.Debug) {
+            this.sink.log(message);
+        }
+    }
+
+    public info(message: string) {
+        if (this.level <= LogLevel.Info) {
+            this.sink.info(message);
+        }
+    }
+
+    public warn(message: string) {
+        if (this.level <= LogLevel.Warning) {
+            this.sink.warn(message);
+        }
+    }
+
+    public error(message: string) {
+        this.sink.error(message);
+    }
+
+    /**
+     * Logs a message sent to (`Tx`) or received from (`Rx`) a service.
+     * Only the command or type is logged for the `Messages` trace level, the whole payload for `Verbose`.
+     */
+    public traceMessage(direction: "Tx" | "Rx", obj: { [key: string]: unknown }) {
+        if (this.trace === TraceLevel.Off) {
+            return;
+        }
+        const summary = `${direction}: ${obj.command ?? obj.type} #${obj.invocation_id}`;
+        if (this.trace === TraceLevel.Messages) {
+            this.sink.log(summary);
+        } else {
+            this.sink.log(`${summary} ${this.truncate(JSON.stringify(obj))}`);
+        }
+    }
+
+    /**
+     * Logs the output of a service process, each line with the prefix of the service.
+     */
+    public serviceOutput(prefix: string, output: string, stream: "stdout" | "stderr") {
+        for (const line of output.split(/\r?\n/)) {
+            if (line.trim().length === 0) {
+                continue;
+            }
+            if (stream === "stderr") {
+                this.warn(`[${prefix}] ${line}`);
+            } else {
+                this.info(`[${prefix}] ${line}`);
+            }
+        }
+    }
+
+    public truncate(text: string): string {
+        if (text.length <= this.maxPayloadLength) {
+            return text;
+        }
+        return `${text.substring(0, this.maxPayloadLength)}... (${text.length - this.maxPayloadLength} more characters)`;
+    }
+}
+
+/**
+ * The log of the server and its service clients.
+ */
+export const logger = new Logger();
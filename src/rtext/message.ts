@@ -1,63 +1,159 @@
-export function serialize(obj: object) {
-    escapeAllString(obj);
-    const json = JSON.stringify(obj);
-    return json.length + json;
+import { ProtocolError } from "./errors";
+
+// Messages are JSON objects prefixed with their length in bytes, e.g. `17{"type":"request"}`.
+// Non-ASCII characters and the percent sign in string values are escaped as `%xx` per byte of
+// their UTF-8 encoding, so that the JSON itself is pure ASCII.
+
+const LEFT_BRACE = 0x7b; // {
+const PERCENT = 0x25; // %
+
+/**
+ * Serializes a message object including the length prefix.
+ * The object itself is not modified.
+ */
+export function serialize(obj: object): string {
+    const json = JSON.stringify(mapStrings(obj, escape));
+    return Buffer.byteLength(json) + json;
 }
 
-export function extract(data: any): any | undefined {
-    const str = data.toString("binary");
-    const m = str.match(/^(\d+)\{/);
-    let obj;
-    if (m) {
-        const lengthLength = m[1].length;
-        const length = Number(m[1]);
-        if (str.length >= lengthLength + length) {
-            const json = str.slice(lengthLength, lengthLength + length);
-            obj = JSON.parse(json);
-            obj._dataLength = lengthLength + length;
+/**
+ * A message received from the service, its other fields depend on the type.
+ */
+export interface ServiceMessage {
+    type: string;
+    invocation_id: number;
+    [key: string]: unknown;
+}
+
+/**
+ * Splits the data received from the service into messages.
+ * Received chunks are only concatenated once a message is complete,
+ * so large messages arriving in many chunks are framed in linear time.
+ */
+export class MessageFramer {
+    private _chunks: Buffer[] = [];
+    private _size = 0;
+
+    // Length of the current message including its length prefix, if the prefix was received
+    private _messageLength?: number;
+    private _prefixLength = 0;
+
+    /**
+     * Adds received data and returns the messages which are complete now.
+     * Throws a `ProtocolError` if the data doesn't start with a length prefix.
+     */
+    public push(data: Buffer): ServiceMessage[] {
+        this._chunks.push(data);
+        this._size += data.length;
+
+        const messages: ServiceMessage[] = [];
+        while (this.readPrefix() && this._size >= this._messageLength!) {
+            const bytes = this.take(this._messageLength!);
+            const json = bytes.toString("latin1", this._prefixLength);
+            this._messageLength = undefined;
+            messages.push(mapStrings(JSON.parse(json), unescape) as ServiceMessage);
         }
+        return messages;
     }
-    if (obj) {
-        unescapeAllStrings(obj);
+
+    /**
+     * Drops all received data, e.g. after the connection was closed.
+     */
+    public reset() {
+        this._chunks = [];
+        this._size = 0;
+        this._messageLength = undefined;
     }
-    return obj;
-}
 
-function unescapeAllStrings(obj: object) {
-    forEachNested(Object.values(obj), (s) => {
-        // change encoding back to binary
-        // there could still be replacement characters (\uFFFD), turn them into "?"
-        s.replace(/%[0-9a-fA-F][0-9a-fA-F]/, () => {
-            return String.fromCharCode(parseInt(s.slice(1, 2), 16));
-        });
-    }, null);
-}
+    private readPrefix(): boolean {
+        if (this._messageLength !== undefined) {
+            return true;
+        }
+        let length = 0;
+        let digits = 0;
+        for (const chunk of this._chunks) {
+            for (const byte of chunk) {
+                if (byte >= 0x30 && byte <= 0x39) {
+                    length = length * 10 + (byte - 0x30);
+                    digits++;
+                } else if (byte === LEFT_BRACE && digits > 0) {
+                    this._prefixLength = digits;
+                    this._messageLength = digits + length;
+                    return true;
+                } else {
+                    const received = Buffer.concat(this._chunks).toString("latin1", 0, 32);
+                    this.reset();
+                    throw new ProtocolError(`Invalid message received: ${received}`);
+                }
+            }
+        }
+        return false;
+    }
 
-function escapeAllString(obj: object) {
-    forEachNested(Object.values(obj), (value) => {
-        const bytes = Buffer.from(value);
-        value = "";
-        bytes.forEach((b) => {
-            if (b >= 128 || b == 0x25) { // %
-                value.concat(`%${b.toString(16)}`);
+    // Removes and returns the first bytes of the received data
+    private take(length: number): Buffer {
+        const result = Buffer.allocUnsafe(length);
+        let offset = 0;
+        while (offset < length) {
+            const chunk = this._chunks[0];
+            const count = Math.min(chunk.length, length - offset);
+            chunk.copy(result, offset, 0, count);
+            offset += count;
+            if (count === chunk.length) {
+                this._chunks.shift();
             } else {
-                value.concat(b);
+                this._chunks[0] = chunk.subarray(count);
             }
-        });
-    }, null);
+        }
+        this._size -= length;
+        return result;
+    }
 }
 
-function forEachNested(O: any, f: (value: any) => void, cur: any) {
-    O = [O]; // ensure that f is called with the top-level object
-    while (O.length) // keep on processing the top item on the stack
-        cur = O.pop();
-        cur.forEach((p: any) => {
-            if (typeof p === 'string') {
-                f(p);
-            }
-        });
-        if (
-            cur instanceof Object && // ensure cur is an object, but not null
-            [Object, Array].includes(cur.constructor) // limit search to [] and {}
-        ) O.push(...Object.values(cur)); // search all values deeper inside
+/**
+ * Escapes the UTF-8 bytes of non-ASCII characters and the percent sign as `%xx`.
+ */
+export function escape(value: string): string {
+    let result = "";
+    for (const byte of Buffer.from(value, "utf8")) {
+        if (byte >= 0x80 || byte === PERCENT) {
+            result += "%" + byte.toString(16).padStart(2, "0");
+        } else {
+            result += String.fromCharCode(byte);
+        }
+    }
+    return result;
+}
+
+/**
+ * Turns `%xx` escapes back into bytes and decodes the result as UTF-8.
+ * Bytes which aren't valid UTF-8 are decoded as replacement characters.
+ */
+export function unescape(value: string): string {
+    if (!value.includes("%")) {
+        return value;
+    }
+    // escapes are at the odd indexes
+    const parts = value.split(/(%[0-9a-fA-F]{2})/);
+    const bytes = parts.map((part, i) => {
+        return i % 2 === 1 ? Buffer.from([parseInt(part.substring(1), 16)]) : Buffer.from(part, "utf8");
+    });
+    return Buffer.concat(bytes).toString("utf8");
+}
+
+// Returns a copy of a JSON value with all string values, but not the keys, mapped
+function mapStrings<T>(value: T, f: (s: string) => string): T;
+function mapStrings(value: unknown, f: (s: string) => string): unknown {
+    if (typeof value === "string") {
+        return f(value);
+    } else if (Array.isArray(value)) {
+        return value.map((v) => mapStrings(v, f));
+    } else if (value !== null && typeof value === "object") {
+        const result: { [key: string]: unknown } = {};
+        for (const [key, v] of Object.entries(value)) {
+            result[key] = mapStrings(v, f);
+        }
+        return result;
+    }
+    return value;
 }
@@ -0,0 +1,188 @@
+import { Token, TokenKind, tokenize, commandToken, elementNameToken } from './tokenizer';
+
+export interface Span {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+export enum OutlineKind {
+    Element,
+    Label
+}
+
+export interface OutlineNode {
+    kind: OutlineKind;
+
+    /**
+     * Command of an element or the label name without colon
+     */
+    command: string;
+
+    /**
+     * Element name if the element has one
+     */
+    name?: string;
+
+    /**
+     * Whole element including its child elements
+     */
+    span: Span;
+
+    /**
+     * Element name, or command if there is no name
+     */
+    selection: Span;
+
+    children: OutlineNode[];
+}
+
+export interface LineToken extends Token {
+    line: number;
+}
+
+export interface LogicalLine {
+    tokens: LineToken[];
+}
+
+/**
+ * Joins continuation lines the same way `context.join_lines` does and drops comments and annotations.
+ */
+export function logicalLines(lines: string[]): LogicalLine[] {
+    const result: LogicalLine[] = [];
+    let current: LogicalLine | undefined;
+    let arrayNesting = 0;
+    lines.forEach((text, line) => {
+        const tokens: LineToken[] = tokenize(text).map((t) => ({ ...t, line }));
+        if (tokens.length === 0 || tokens[0].kind === TokenKind.Comment || tokens[0].kind === TokenKind.Annotation) {
+            return;
+        }
+        if (!current) {
+            current = { tokens: [] };
+            arrayNesting = 0;
+            result.push(current);
+        }
+        current.tokens.push(...tokens);
+        if (!isLabelArray(current.tokens)) {
+            tokens.forEach((t) => {
+                if (t.kind === TokenKind.LeftBracket) {
+                    arrayNesting += 1;
+                } else if (t.kind === TokenKind.RightBracket && arrayNesting > 0) {
+                    arrayNesting -= 1;
+                }
+            });
+        }
+        const last = tokens[tokens.length - 1];
+        if (arrayNesting === 0 && last.kind !== TokenKind.Comma && last.kind !== TokenKind.Backslash) {
+            current = undefined;
+        }
+    });
+    return result;
+}
+
+// A child label followed by an opening bracket, the children follow on separate lines
+function isLabelArray(tokens: Token[]): boolean {
+    return tokens.length === 2 && tokens[0].kind === TokenKind.Label && tokens[1].kind === TokenKind.LeftBracket;
+}
+
+function tokenSpan(token: LineToken): Span {
+    return { startLine: token.line, startColumn: token.start, endLine: token.line, endColumn: token.end };
+}
+
+function labelNode(label: LineToken): OutlineNode {
+    return {
+        kind: OutlineKind.Label,
+        command: label.text.substring(0, label.text.length - 1),
+        span: tokenSpan(label),
+        selection: { ...tokenSpan(label), endColumn: label.end - 1 },
+        children: []
+    };
+}
+
+/**
+ * Builds the element tree of a document.
+ * Elements are nested into their parents, children with a child label are grouped below a label node.
+ */
+export function parse(lines: string[]): OutlineNode[] {
+    const roots: OutlineNode[] = [];
+    // open elements and label arrays, with the token kind which closes them
+    // and the label of an element which is closed together with the element
+    const stack: { node: OutlineNode, closer: TokenKind, label?: OutlineNode }[] = [];
+    // a label on its own line applies to the next element
+    let pendingLabel: OutlineNode | undefined;
+
+    function add(node: OutlineNode) {
+        const parent = stack[stack.length - 1];
+        (parent ? parent.node.children : roots).push(node);
+    }
+
+    function close(node: OutlineNode, token: LineToken) {
+        node.span.endLine = token.line;
+        node.span.endColumn = token.end;
+    }
+
+    logicalLines(lines).forEach((logical) => {
+        const tokens = logical.tokens;
+        const first = tokens[0];
+        const last = tokens[tokens.length - 1];
+
+        if (first.kind === TokenKind.RightBrace || first.kind === TokenKind.RightBracket) {
+            const index = stack.map((s) => s.closer).lastIndexOf(first.kind);
+            if (index !== -1) {
+                stack.splice(index).forEach((s) => {
+                    close(s.node, first);
+                    if (s.label) {
+                        close(s.label, first);
+                    }
+                });
+            }
+            return;
+        }
+
+        if (isLabelArray(tokens)) {
+            const label = labelNode(first);
+            add(label);
+            stack.push({ node: label, closer: TokenKind.RightBracket });
+            return;
+        }
+
+        let label: OutlineNode | undefined;
+        if (first.kind === TokenKind.Label) {
+            if (tokens.length === 1) {
+                pendingLabel = labelNode(first);
+                return;
+            }
+            label = labelNode(first);
+        } else if (pendingLabel) {
+            label = pendingLabel;
+        }
+        pendingLabel = undefined;
+
+        const command = commandToken(tokens) as LineToken | undefined;
+        if (!command) {
+            return;
+        }
+        const name = elementNameToken(tokens) as LineToken | undefined;
+        const element: OutlineNode = {
+            kind: OutlineKind.Element,
+            command: command.text,
+            name: name?.text,
+            span: { ...tokenSpan(command), endLine: last.line, endColumn: last.end },
+            selection: tokenSpan(name ?? command),
+            children: []
+        };
+        if (label) {
+            label.children.push(element);
+            add(label);
+        } else {
+            add(element);
+        }
+        if (last.kind === TokenKind.LeftBrace) {
+            stack.push({ node: element, closer: TokenKind.RightBrace, label });
+        } else if (label) {
+            close(label, last);
+        }
+    });
+    return roots;
+}
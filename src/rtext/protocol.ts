@@ -201,3 +201,43 @@ export interface ProgressInformation {
      */
     message?: string;
 }
+
+/**
+ * Latest protocol version supported by the frontend.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Features of the backend which depend on the negotiated protocol version.
+ */
+export interface ServiceCapabilities {
+    /**
+     * Protocol version sent with each request
+     */
+    protocolVersion: number;
+
+    /**
+     * The ``version`` command, introduced in version 1.
+     */
+    version: boolean;
+
+    /**
+     * The ``context_info`` command, introduced in version 1.
+     */
+    contextInfo: boolean;
+
+    /**
+     * Placeholders in the ``insert`` text of completion options, introduced in version 1.
+     * Before, the insert text is inserted as is.
+     */
+    completionPlaceholders: boolean;
+}
+
+export function serviceCapabilities(protocolVersion: number): ServiceCapabilities {
+    return {
+        protocolVersion,
+        version: protocolVersion >= 1,
+        contextInfo: protocolVersion >= 1,
+        completionPlaceholders: protocolVersion >= 1
+    };
+}
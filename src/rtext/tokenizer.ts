@@ -0,0 +1,143 @@
+export enum TokenKind {
+    Comment,
+    Annotation,
+    Reference,
+    Float,
+    Integer,
+    String,
+    Boolean,
+    Identifier,
+    Label,
+    Generic,
+    LeftBrace,
+    RightBrace,
+    LeftBracket,
+    RightBracket,
+    Comma,
+    Backslash,
+    Error
+}
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+
+    /**
+     * Column of the first character, starts at 0
+     */
+    start: number;
+
+    /**
+     * Column after the last character
+     */
+    end: number;
+}
+
+// Token patterns in the order of the RText tokenizer, anchored at the current column
+const patterns: [TokenKind, RegExp][] = [
+    [TokenKind.Reference, /^(?:\w*\/)+\w*/],
+    [TokenKind.Float, /^[-+]?(?:\d+\.\d+(?:[eE][-+]?\d+)?|\d+[eE][-+]?\d+)\b/],
+    [TokenKind.Integer, /^(?:0[xX][0-9a-fA-F]+|[-+]?\d+)\b/],
+    [TokenKind.String, /^"(?:[^"\\]|\\.)*"|^'(?:[^'\\]|\\.)*'/],
+    [TokenKind.Boolean, /^(?:true|false)\b/],
+    [TokenKind.Label, /^[a-zA-Z_]\w*:/],
+    [TokenKind.Identifier, /^[a-zA-Z_]\w*/],
+    [TokenKind.Generic, /^<%(?:(?!%>).)*%>|^<[^>]*>/],
+];
+
+const punctuation: { [c: string]: TokenKind } = {
+    "{": TokenKind.LeftBrace,
+    "}": TokenKind.RightBrace,
+    "[": TokenKind.LeftBracket,
+    "]": TokenKind.RightBracket,
+    ",": TokenKind.Comma,
+    "\\": TokenKind.Backslash,
+};
+
+/**
+ * Splits a single line of an RText document into tokens.
+ * Whitespace is skipped, characters which can't start any token are reported as `Error` tokens.
+ */
+export function tokenize(line: string): Token[] {
+    const tokens: Token[] = [];
+    const trimmed = line.trimStart();
+    const indent = line.length - trimmed.length;
+    if (trimmed[0] === "#" || trimmed[0] === "@") {
+        const kind = trimmed[0] === "#" ? TokenKind.Comment : TokenKind.Annotation;
+        tokens.push({ kind, text: line.substring(indent).trimEnd(), start: indent, end: line.trimEnd().length });
+        return tokens;
+    }
+
+    let col = indent;
+    while (col < line.length) {
+        const rest = line.substring(col);
+        const ws = rest.match(/^\s+/);
+        if (ws) {
+            col += ws[0].length;
+            continue;
+        }
+        let token: Token | undefined;
+        for (const [kind, re] of patterns) {
+            const m = rest.match(re);
+            if (m && m[0].length > 0) {
+                token = { kind, text: m[0], start: col, end: col + m[0].length };
+                break;
+            }
+        }
+        if (!token) {
+            const kind = punctuation[rest[0]] ?? TokenKind.Error;
+            token = { kind, text: rest[0], start: col, end: col + 1 };
+        }
+        tokens.push(token);
+        col = token.end;
+    }
+    return tokens;
+}
+
+/**
+ * Returns the token which contains the column or ends right at it.
+ */
+export function tokenAt(tokens: Token[], column: number): Token | undefined {
+    return tokens.find((t) => t.start <= column && column < t.end) ??
+        tokens.find((t) => t.end === column);
+}
+
+/**
+ * Returns the command token of an element line, the child label in front of the command is skipped.
+ */
+export function commandToken(tokens: Token[]): Token | undefined {
+    let i = 0;
+    if (tokens[i]?.kind === TokenKind.Label) {
+        i++;
+    }
+    return tokens[i]?.kind === TokenKind.Identifier ? tokens[i] : undefined;
+}
+
+/**
+ * Returns the token holding the element name, i.e. the first unlabeled argument after the command.
+ */
+export function elementNameToken(tokens: Token[]): Token | undefined {
+    const command = commandToken(tokens);
+    if (command) {
+        const next = tokens[tokens.indexOf(command) + 1];
+        if (next && (next.kind === TokenKind.Identifier || next.kind === TokenKind.String)) {
+            return next;
+        }
+    }
+}
+
+/**
+ * Tells if a token might reference another element: a reference path, or an identifier or string
+ * used as argument value. The command and the element name are no references.
+ */
+export function isReferenceCandidate(tokens: Token[], token: Token): boolean {
+    switch (token.kind) {
+        case TokenKind.Reference:
+            return true;
+        case TokenKind.Identifier:
+        case TokenKind.String:
+            return token !== commandToken(tokens) && token !== elementNameToken(tokens);
+        default:
+            return false;
+    }
+}
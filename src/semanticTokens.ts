@@ -0,0 +1,97 @@
+import * as lsp from 'vscode-languageserver/node';
+
+import { TokenKind, tokenize, commandToken, elementNameToken } from './rtext/tokenizer';
+import { logicalLines } from './rtext/outline';
+
+// Token types and modifiers, their index in the legend is their encoded value
+const tokenTypes: string[] = [
+    lsp.SemanticTokenTypes.type,
+    lsp.SemanticTokenTypes.variable,
+    lsp.SemanticTokenTypes.property,
+    lsp.SemanticTokenTypes.parameter,
+    lsp.SemanticTokenTypes.string,
+    lsp.SemanticTokenTypes.number,
+    lsp.SemanticTokenTypes.keyword,
+    lsp.SemanticTokenTypes.enumMember,
+    lsp.SemanticTokenTypes.decorator,
+    lsp.SemanticTokenTypes.comment,
+];
+
+const tokenModifiers: string[] = [
+    lsp.SemanticTokenModifiers.declaration,
+];
+
+export const legend: lsp.SemanticTokensLegend = { tokenTypes, tokenModifiers };
+
+export interface SemanticToken {
+    line: number;
+    start: number;
+    length: number;
+    type: string;
+    modifiers: string[];
+}
+
+// Types of the tokens which don't depend on their position in the element
+const literalTypes: Map<TokenKind, string> = new Map([
+    [TokenKind.Reference, lsp.SemanticTokenTypes.variable],
+    [TokenKind.String, lsp.SemanticTokenTypes.string],
+    [TokenKind.Generic, lsp.SemanticTokenTypes.string],
+    [TokenKind.Integer, lsp.SemanticTokenTypes.number],
+    [TokenKind.Float, lsp.SemanticTokenTypes.number],
+    [TokenKind.Boolean, lsp.SemanticTokenTypes.keyword],
+    [TokenKind.Identifier, lsp.SemanticTokenTypes.enumMember],
+    [TokenKind.Label, lsp.SemanticTokenTypes.parameter],
+]);
+
+/**
+ * Classifies the tokens of a document:
+ * commands are types, element names are variable declarations, references are variables,
+ * child labels are properties and attribute labels are parameters.
+ * Continuation lines are joined with their element line, so their tokens are always arguments.
+ */
+export function semanticTokens(lines: string[]): SemanticToken[] {
+    const result: SemanticToken[] = [];
+
+    lines.forEach((text, line) => {
+        const [first] = tokenize(text);
+        if (first?.kind === TokenKind.Comment || first?.kind === TokenKind.Annotation) {
+            const type = first.kind === TokenKind.Comment ? lsp.SemanticTokenTypes.comment : lsp.SemanticTokenTypes.decorator;
+            result.push({ line, start: first.start, length: first.end - first.start, type, modifiers: [] });
+        }
+    });
+
+    for (const logical of logicalLines(lines)) {
+        const tokens = logical.tokens;
+        const command = commandToken(tokens);
+        const name = elementNameToken(tokens);
+        tokens.forEach((token, index) => {
+            let type: string | undefined;
+            const modifiers: string[] = [];
+            if (token === command) {
+                type = lsp.SemanticTokenTypes.type;
+            } else if (token === name) {
+                type = lsp.SemanticTokenTypes.variable;
+                modifiers.push(lsp.SemanticTokenModifiers.declaration);
+            } else if (index === 0 && token.kind === TokenKind.Label) {
+                type = lsp.SemanticTokenTypes.property;
+            } else {
+                type = literalTypes.get(token.kind);
+            }
+            if (type) {
+                result.push({ line: token.line, start: token.start, length: token.end - token.start, type, modifiers });
+            }
+        });
+    }
+
+    return result.sort((a, b) => a.line - b.line || a.start - b.start);
+}
+
+/**
+ * Encodes the tokens with the legend, the builder may keep the result for delta requests.
+ */
+export function build(builder: lsp.SemanticTokensBuilder, tokens: SemanticToken[]): void {
+    for (const token of tokens) {
+        const modifiers = token.modifiers.reduce((bits, m) => bits | (1 << tokenModifiers.indexOf(m)), 0);
+        builder.push(token.line, token.start, token.length, tokenTypes.indexOf(token.type), modifiers);
+    }
+}
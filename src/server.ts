@@ -4,295 +4,936 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import * as client from './rtext/client'
 import * as protocol from './rtext/protocol';
 import * as context from './rtext/context';
+import * as errors from './rtext/errors';
+import * as tokenizer from './rtext/tokenizer';
+import * as outline from './rtext/outline';
+import * as symbols from './symbols';
+import * as diagnostics from './diagnostics';
+import * as completion from './completion';
+import * as hover from './hover';
+import * as links from './links';
+import * as semanticTokens from './semanticTokens';
+import * as formatting from './formatting';
+import * as rename from './rename';
+import * as configDocument from './configDocument';
+import { ConnectorManager } from './rtext/connectorManager';
+import { logger } from './rtext/logger';
+import { parse_config_file } from './rtext/config';
 import { ServerInitializationOptions } from './options';
+import { ServiceStatusNotification, ShowLogNotification } from './notifications';
+import { Command, CommandArguments, CommandResult, ServiceResult, commands } from './commands';
 
-import { pathToFileURL } from 'url'
-
-// Creates the LSP connection
-const connection = lsp.createConnection(lsp.ProposedFeatures.all);
-
-// Create a manager for open text documents
-const documents: lsp.TextDocuments<TextDocument> = new lsp.TextDocuments(TextDocument);
-
-// The workspace folder this server is operating on
-let workspaceFolder: string | null | undefined;
-
-// Initialization options passed by the client
-let settings: ServerInitializationOptions;
-
-let rtextClient: client.Client;
-
-let previousProblemFiles: string[] = [];
-async function provideDiagnostics() {
-    const progressReporter: lsp.WorkDoneProgressServerReporter = await connection.window.createWorkDoneProgress();
-    progressReporter.begin("ESR Automate: Loading model", 0);
-    rtextClient.loadModel((progress: protocol.ProgressInformation) => {
-        if ((progress.percentage != undefined) && (progress.message != undefined)) {
-            progressReporter.report(progress.percentage, progress.message);
-        }
-        else if (progress.percentage != undefined) {
-            progressReporter.report(progress.percentage);
-        }
-        else if (progress.message != undefined) {
-            progressReporter.report(progress.message);
-        }
-    }).then((data) => {
-        const problemFiles: string[] = [];
-        data.problems.forEach((problem) => {
-            const diagnostics: lsp.Diagnostic[] = [];
-
-            function convertSeverity(severity: protocol.ProblemSeverity): lsp.DiagnosticSeverity {
-                switch (severity) {
-                    case protocol.ProblemSeverity.debug:
-                        return lsp.DiagnosticSeverity.Hint;
-                    case protocol.ProblemSeverity.error:
-                    case protocol.ProblemSeverity.fatal:
-                        return lsp.DiagnosticSeverity.Error;
-                    case protocol.ProblemSeverity.warn:
-                        return lsp.DiagnosticSeverity.Warning;
-                    case protocol.ProblemSeverity.info:
-                        return lsp.DiagnosticSeverity.Information;
-                    default:
-                        //@todo assert
-                        return lsp.DiagnosticSeverity.Error;
-                }
-            }
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url'
 
-            problem.problems.forEach((fileProblem) => {
-                const diagnostic: lsp.Diagnostic = {
-                    message: fileProblem.message,
-                    range: lsp.Range.create(lsp.Position.create(fileProblem.line - 1, 0), lsp.Position.create(fileProblem.line - 1, Number.MAX_VALUE)),
-                    severity: convertSeverity(fileProblem.severity),
-                    source: `rtext${settings.id}`
-                };
+/**
+ * Registers the request handlers of the language server on the connection and starts listening.
+ */
+export function startServer(connection: lsp.Connection): void {
+    // The log of the server and the service clients goes to the client's output
+    logger.sink = connection.console;
 
-                diagnostics.push(diagnostic);
-            });
-            connection.sendDiagnostics({ uri: pathToFileURL(problem.file).toString(), diagnostics });
-            problemFiles.push(problem.file);
+    // Create a manager for open text documents
+    const documents: lsp.TextDocuments<TextDocument> = new lsp.TextDocuments(TextDocument);
+
+    // The workspace folder this server is operating on
+    let workspaceFolder: string | null | undefined;
+
+    // Initialization options passed by the client
+    let settings: ServerInitializationOptions;
+
+    // Format of the hover contents preferred by the client
+    let hoverContentFormat: lsp.MarkupKind = lsp.MarkupKind.PlainText;
+
+    // Whether the client resolves the ranges of workspace symbols lazily
+    let lazySymbolLocations = false;
+
+    // Whether the server registers for changes of the .rtext files, the services are restarted on changes
+    let watchedConfigFiles = false;
+
+    // One RText service client per .rtext config entry, created on demand
+    const connectorManager = new ConnectorManager<client.ClientOptions, client.Client>(client.Client);
+
+    // Options of the service clients, completed by the initialization options
+    const clientOptions: client.ClientOptions = {
+        onStatusChange: (rtextClient, status) => onServiceStatus(rtextClient, status)
+    };
+
+    // Clients which already loaded the model and published diagnostics
+    const loadedClients: Set<client.Client> = new Set();
+
+    // Files with problems reported by the last model load, per client
+    const previousProblemFiles: Map<client.Client, string[]> = new Map();
+
+    // Notice about not reported problems of the last model load, per client
+    const previousTruncation: Map<client.Client, string | undefined> = new Map();
+
+    // Failed clients whose failure was shown to the user
+    const reportedFailures: Set<client.Client> = new Set();
+
+    // Config files whose errors were published
+    const checkedConfigFiles: Set<string> = new Set();
+
+    // Config files with published errors
+    const configFilesWithErrors: Set<string> = new Set();
+
+    async function clientForDocument(uri: string): Promise<client.Client | undefined> {
+        if (!uri.startsWith('file:')) {
+            return undefined;
+        }
+        const rtextClient = connectorManager.connectorForFile(fileURLToPath(uri), clientOptions);
+        if (rtextClient) {
+            if (!checkedConfigFiles.has(rtextClient.config.file)) {
+                checkedConfigFiles.add(rtextClient.config.file);
+                provideConfigDiagnostics(rtextClient.config.file);
+            }
+            await rtextClient.start();
+            loadModelOnce(rtextClient);
+        }
+        return rtextClient;
+    }
+
+    function onServiceStatus(rtextClient: client.Client, status: client.ServiceStatus) {
+        logger.info(`Service ${rtextClient.config.command} is ${status.state}${status.reason ? `: ${status.reason}` : ''}`);
+        connection.sendNotification(ServiceStatusNotification, {
+            configFile: rtextClient.config.file,
+            command: rtextClient.config.command,
+            state: status.state,
+            reason: status.reason
         });
+        if (status.state === 'failed') {
+            reportFailure(rtextClient, status);
+        } else if (status.state === 'running') {
+            reportedFailures.delete(rtextClient);
+        }
+        // a reconnected service starts without a model
+        if (status.state === 'running' && loadedClients.has(rtextClient)) {
+            provideDiagnostics(rtextClient);
+        }
+    }
 
-        previousProblemFiles.forEach((file) => {
-            if (!problemFiles.includes(file)) {
-                connection.sendDiagnostics({ uri: pathToFileURL(file).toString(), diagnostics: [] });
+    // Shows why a service failed, only once until it runs again. The last output of the service goes to the log
+    function reportFailure(rtextClient: client.Client, status: client.ServiceStatus) {
+        if (reportedFailures.has(rtextClient)) {
+            return;
+        }
+        reportedFailures.add(rtextClient);
+        if (status.error instanceof errors.ServiceStartError && status.error.output.length > 0) {
+            logger.error(`Last output of ${rtextClient.config.command}:\n${status.error.output.join('\n')}`);
+        }
+        const showLog: lsp.MessageActionItem = { title: 'Show log' };
+        connection.window.showErrorMessage(`RText service ${rtextClient.config.command} failed: ${status.reason}`, showLog).then((action) => {
+            if (action?.title === showLog.title) {
+                connection.sendNotification(ShowLogNotification);
             }
+        }, (error: Error) => {
+            logger.error(error.message);
         });
-        previousProblemFiles = problemFiles;
-    }).catch(error => {
-        console.log(`Failed to load model: ${error.message}`);
-    }).finally(() => { progressReporter.done(); });
-}
+    }
 
-function extractContext(document: TextDocument, position: lsp.Position): context.Context {
-    const text = document.getText(lsp.Range.create(lsp.Position.create(0, 0), lsp.Position.create(position.line, Number.MAX_VALUE)));
-    const lines = text.split('\n');
-    const pos = position.character + 1; // column number start at 1 in RText protocol
-    return context.extract(lines, pos);
-}
+    function loadModelOnce(rtextClient: client.Client) {
+        if (!loadedClients.has(rtextClient)) {
+            loadedClients.add(rtextClient);
+            provideDiagnostics(rtextClient);
+        }
+    }
 
-connection.onHover((params: lsp.TextDocumentPositionParams): Promise<lsp.Hover | null> | undefined => {
-    const document = documents.get(params.textDocument.uri);
-    if (document) {
-        const ctx = extractContext(document, params.position);
-        return rtextClient.getContextInformation(ctx).then((response: protocol.ContextInformationResponse) => {
-            return { contents: response.desc };
-        }).catch(error => {
-            connection.console.error(error.message);
-            return null;
-        });
+    // Starts the services configured in the .rtext file of the workspace folder, one per entry
+    async function startWorkspaceClients(): Promise<client.Client[]> {
+        if (!workspaceFolder) {
+            return [];
+        }
+        const configFile = path.join(workspaceFolder, '.rtext');
+        if (!fs.existsSync(configFile)) {
+            return [];
+        }
+        checkedConfigFiles.add(configFile);
+        provideConfigDiagnostics(configFile);
+        const started: client.Client[] = [];
+        await Promise.all(parse_config_file(configFile).map((config) => {
+            const rtextClient = connectorManager.connectorForConfig(config, clientOptions);
+            return rtextClient.start().then(() => {
+                started.push(rtextClient);
+            }).catch((error: Error) => {
+                logger.error(error.message);
+            });
+        }));
+        return started;
     }
-});
-
-connection.onReferences((params: lsp.ReferenceParams): Promise<lsp.Location[] | null> | undefined => {
-    const document = documents.get(params.textDocument.uri);
-    if (document) {
-        const ctx = extractContext(document, params.position);
-        return rtextClient.getLinkTargets(ctx).then((response: protocol.LinkTargetsResponse) => {
-            const locations: lsp.Location[] = [];
-            response.targets.forEach(target => {
-                const range = lsp.Range.create(
-                    lsp.Position.create(target.line - 1, 0),
-                    lsp.Position.create(target.line - 1, Number.MAX_VALUE)
-                );
-                const uri = pathToFileURL(target.file).toString();
-                locations.push({ uri, range });
+
+    // Replaces the services of a saved, created or deleted .rtext file by services with the current config
+    async function reloadConfig(configFile: string) {
+        logger.info(`Config ${configFile} changed, restarting its services`);
+        const removed = connectorManager.removeConnectors(configFile);
+        const staleFiles: string[] = [];
+        await Promise.all(removed.map((rtextClient) => {
+            loadedClients.delete(rtextClient);
+            reportedFailures.delete(rtextClient);
+            staleFiles.push(...(previousProblemFiles.get(rtextClient) ?? []));
+            previousProblemFiles.delete(rtextClient);
+            previousTruncation.delete(rtextClient);
+            return rtextClient.stop();
+        }));
+        // problems reported by other services are kept
+        const ownedFiles = new Set([...previousProblemFiles.values()].flat());
+        new Set(staleFiles.filter((file) => !ownedFiles.has(file))).forEach((file) => {
+            connection.sendDiagnostics({ uri: pathToFileURL(file).toString(), diagnostics: [] });
+        });
+        provideConfigDiagnostics(configFile);
+
+        if (workspaceFolder && configFile === path.join(workspaceFolder, '.rtext')) {
+            (await startWorkspaceClients()).forEach((c) => loadModelOnce(c));
+        }
+        // open documents may belong to other services now
+        await Promise.all(documents.all().filter((d) => !isConfigFile(d.uri)).map((document) => {
+            return clientForDocument(document.uri).catch((error: Error) => {
+                logger.error(error.message);
             });
-            return locations;
-        }).catch(error => {
-            connection.console.error(error.message);
+        }));
+    }
+
+    // Maps errors of the RText client to LSP response errors
+    function toResponseError(error: Error): lsp.ResponseError<void> {
+        if (error instanceof lsp.ResponseError) {
+            return error;
+        } else if (error instanceof errors.RequestCancelledError) {
+            return new lsp.ResponseError(lsp.LSPErrorCodes.RequestCancelled, error.message);
+        } else if (error instanceof errors.UnknownCommandError) {
+            return new lsp.ResponseError(lsp.ErrorCodes.MethodNotFound, error.message);
+        } else if (error instanceof errors.UnsupportedVersionError) {
+            return new lsp.ResponseError(lsp.ErrorCodes.InvalidRequest, error.message);
+        } else if (error instanceof errors.ConnectionClosedError || error instanceof errors.RequestTimeoutError) {
+            return new lsp.ResponseError(lsp.LSPErrorCodes.RequestFailed, error.message);
+        }
+        return new lsp.ResponseError(lsp.ErrorCodes.InternalError, error.message);
+    }
+
+    // Resolves the client for a document and runs the request on it,
+    // errors are logged and the request is rejected with the matching response error
+    async function requestForDocument<R>(uri: string, request: (rtextClient: client.Client) => Promise<R>): Promise<R | null> {
+        let rtextClient: client.Client | undefined;
+        try {
+            rtextClient = await clientForDocument(uri);
+        } catch (error) {
+            logger.error((error as Error).message);
+            throw new lsp.ResponseError(lsp.LSPErrorCodes.RequestFailed, (error as Error).message);
+        }
+        if (!rtextClient) {
             return null;
+        }
+        try {
+            return await request(rtextClient);
+        } catch (error) {
+            if (!(error instanceof errors.RequestCancelledError)) {
+                logger.error((error as Error).message);
+            }
+            throw toResponseError(error as Error);
+        }
+    }
+
+    // Publishes the errors of a .rtext file, the text of an open document takes precedence over the file
+    function provideConfigDiagnostics(configFile: string) {
+        const document = documentForFile(configFile);
+        if (!document) {
+            // a deleted file has no errors anymore
+            if (configFilesWithErrors.delete(configFile)) {
+                connection.sendDiagnostics({ uri: pathToFileURL(configFile).toString(), diagnostics: [] });
+            }
+            return;
+        }
+        const configDiagnostics = configDocument.configDiagnostics(document.getText(), configFile, `rtext${settings.id}`);
+        // files without errors are only published to clear previous errors
+        if (configDiagnostics.length > 0 || configFilesWithErrors.delete(configFile)) {
+            connection.sendDiagnostics({ uri: document.uri, diagnostics: configDiagnostics });
+        }
+        if (configDiagnostics.length > 0) {
+            configFilesWithErrors.add(configFile);
+        }
+    }
+
+    function isConfigFile(uri: string): boolean {
+        return uri.startsWith('file:') && path.basename(fileURLToPath(uri)) === '.rtext';
+    }
+
+    // Returns the open document of a model, the features for models give no results for config files
+    function modelDocument(uri: string): TextDocument | undefined {
+        return isConfigFile(uri) ? undefined : documents.get(uri);
+    }
+
+    function runningClients(): client.Client[] {
+        return connectorManager.allConnectors().filter((c) => loadedClients.has(c));
+    }
+
+    async function provideAllDiagnostics() {
+        await Promise.all(runningClients().map((c) => provideDiagnostics(c)));
+    }
+
+    async function provideDiagnostics(rtextClient: client.Client) {
+        await loadModel(rtextClient).catch(error => {
+            logger.error(`Failed to load model: ${error.message}`);
         });
     }
-});
-
-connection.onWorkspaceSymbol((params: lsp.WorkspaceSymbolParams): Promise<lsp.SymbolInformation[] | null> | undefined => {
-    return rtextClient.findElements(params.query).then((response: protocol.FindElementsResponse) => {
-        const info: lsp.SymbolInformation[] = [];
-        response.elements.forEach((e) => {
-            info.push({
-                name: e.display,
-                location: {
-                    uri: pathToFileURL(e.file).toString(),
-                    range: {
-                        start: { line: e.line - 1, character: 0 },
-                        end: { line: e.line - 1, character: Number.MAX_VALUE }
-                    }
-                },
-                kind: lsp.SymbolKind.Null
+
+    // Loads the model and publishes its problems
+    async function loadModel(rtextClient: client.Client): Promise<protocol.LoadModelResponse> {
+        const progressReporter: lsp.WorkDoneProgressServerReporter = await connection.window.createWorkDoneProgress();
+        progressReporter.begin("ESR Automate: Loading model", 0);
+        return rtextClient.loadModel((progress: protocol.ProgressInformation) => {
+            if ((progress.percentage != undefined) && (progress.message != undefined)) {
+                progressReporter.report(progress.percentage, progress.message);
+            }
+            else if (progress.percentage != undefined) {
+                progressReporter.report(progress.percentage);
+            }
+            else if (progress.message != undefined) {
+                progressReporter.report(progress.message);
+            }
+        }).then((data) => {
+            const problemFiles: string[] = [];
+            data.problems.forEach((problem) => {
+                const document = documentForFile(problem.file);
+                const fileDiagnostics: lsp.Diagnostic[] = problem.problems.map((fileProblem) => {
+                    const text = document && fileProblem.line > 0 ? lineText(document, fileProblem.line - 1) : undefined;
+                    return diagnostics.createDiagnostic(fileProblem, text, `rtext${settings.id}`);
+                });
+                connection.sendDiagnostics({ uri: pathToFileURL(problem.file).toString(), diagnostics: fileDiagnostics });
+                problemFiles.push(problem.file);
             });
-        });
-        return info;
-    }).catch(error => {
-        connection.console.error(error.message);
-        return null;
-    });
-});
-
-connection.onDocumentLinks((params: lsp.DocumentLinkParams): lsp.DocumentLink[] => {
-    const document = documents.get(params.textDocument.uri);
-    const links: lsp.DocumentLink[] = [];
-    if (document) {
-        const lines: string[] = document.getText().split('\n');
-        const re = /\/?\w+\/[\/\w]+\b/g;
-        lines.forEach((line: string, index: number) => {
-            let m;
-            do {
-                m = re.exec(line);
-                if (m) {
-                    const range = lsp.Range.create(
-                        index, m.index,
-                        index, m.index + m[0].length
-                    );
-                    const data = { textDocument: params.textDocument };
-                    links.push({ range, data });
+
+            const truncation = diagnostics.truncationMessage(data);
+            if (truncation && truncation !== previousTruncation.get(rtextClient)) {
+                connection.window.showWarningMessage(truncation);
+            }
+            previousTruncation.set(rtextClient, truncation);
+
+            (previousProblemFiles.get(rtextClient) ?? []).forEach((file) => {
+                if (!problemFiles.includes(file)) {
+                    connection.sendDiagnostics({ uri: pathToFileURL(file).toString(), diagnostics: [] });
                 }
-            } while (m)
-        });
+            });
+            previousProblemFiles.set(rtextClient, problemFiles);
+            return data;
+        }).finally(() => { progressReporter.done(); });
     }
-    return links;
-});
-
-connection.onDocumentLinkResolve((link: lsp.DocumentLink): Promise<lsp.DocumentLink | null> | undefined => {
-    const document = documents.get(link.data.textDocument.uri);
-    if (document) {
-        const ctx = extractContext(document, link.range.start);
-        return rtextClient.getLinkTargets(ctx).then((response: protocol.LinkTargetsResponse) => {
-            if (response.targets.length > 0) {
-                const target = response.targets[0];
-                const url = pathToFileURL(target.file);
-                url.hash = target.line.toString();
-                link.target = url.toString();
+
+    function extractContext(document: TextDocument, position: lsp.Position): context.Context {
+        const text = document.getText(lsp.Range.create(lsp.Position.create(0, 0), lsp.Position.create(position.line, Number.MAX_VALUE)));
+        const lines = text.split('\n');
+        const pos = position.character + 1; // column number start at 1 in RText protocol
+        return context.extract(lines, pos);
+    }
+
+    connection.onHover((params: lsp.TextDocumentPositionParams, token: lsp.CancellationToken): Promise<lsp.Hover | null> | undefined => {
+        const document = documents.get(params.textDocument.uri);
+        if (document && isConfigFile(document.uri)) {
+            const lines = document.getText().split(/\r?\n/);
+            return configDocument.configHover(lines, params.position, fileURLToPath(document.uri), hoverContentFormat);
+        }
+        if (document) {
+            const ctx = extractContext(document, params.position);
+            const tokens = tokenizer.tokenize(lineText(document, params.position.line));
+            const hovered = tokenizer.tokenAt(tokens, params.position.character);
+            return requestForDocument(document.uri, async (rtextClient) => {
+                const [info, links] = await Promise.all([
+                    rtextClient.capabilities.contextInfo ? rtextClient.getContextInformation(ctx, token) : undefined,
+                    hovered && tokenizer.isReferenceCandidate(tokens, hovered) ? rtextClient.getLinkTargets(ctx, token) : undefined
+                ]);
+                const range = links?.targets?.length ? linkRange(ctx, params.position, links) : hovered && tokenRange(params.position.line, hovered);
+                return hover.createHover(info?.desc, links?.targets ?? [], hoverContentFormat, range, workspaceFolder);
+            });
+        }
+    });
+
+    // Returns the open document for a file or loads it from disk
+    function documentForFile(file: string): TextDocument | undefined {
+        const uri = pathToFileURL(file).toString();
+        const document = documents.get(uri);
+        if (document) {
+            return document;
+        }
+        try {
+            return TextDocument.create(uri, 'rtext', 0, fs.readFileSync(file, 'utf-8'));
+        } catch {
+            return undefined;
+        }
+    }
+
+    function lineText(document: TextDocument, line: number): string {
+        return document.getText(lsp.Range.create(line, 0, line, lsp.uinteger.MAX_VALUE));
+    }
+
+    function tokenRange(line: number, token: tokenizer.Token): lsp.Range {
+        return lsp.Range.create(line, token.start, line, token.end);
+    }
+
+    // Converts the link columns of a response, which refer to the last context line, to a document range
+    function linkRange(ctx: context.Context, position: lsp.Position, response: protocol.LinkTargetsResponse): lsp.Range {
+        // the context line might be joined with preceding continuation lines
+        const offset = ctx.pos - (position.character + 1);
+        return lsp.Range.create(
+            position.line, Math.max(response.begin_column - 1 - offset, 0),
+            position.line, Math.max(response.end_column - offset, 0)
+        );
+    }
+
+    // Range of the element name at a line, the whole line if there is no name
+    function elementNameRange(document: TextDocument | undefined, line: number): lsp.Range {
+        if (document) {
+            const name = tokenizer.elementNameToken(tokenizer.tokenize(lineText(document, line)));
+            if (name) {
+                return tokenRange(line, name);
             }
-            return link;
-        }).catch(error => {
-            connection.console.error(error.message);
-            return null;
-        });
+        }
+        return lsp.Range.create(line, 0, line, lsp.uinteger.MAX_VALUE);
+    }
+
+    // Range of the reference to an element with the given name at the line of a referencing element
+    function referenceRange(file: string, line: number, name: string): lsp.Range {
+        const document = documentForFile(file);
+        if (document) {
+            const reference = tokenizer.tokenize(lineText(document, line)).find((t) => {
+                return (t.kind === tokenizer.TokenKind.Reference && t.text.endsWith(`/${name}`)) ||
+                    (t.kind === tokenizer.TokenKind.Identifier && t.text === name);
+            });
+            if (reference) {
+                return tokenRange(line, reference);
+            }
+        }
+        return lsp.Range.create(line, 0, line, lsp.uinteger.MAX_VALUE);
+    }
+
+    function isOnElementName(document: TextDocument, position: lsp.Position): boolean {
+        const tokens = tokenizer.tokenize(lineText(document, position.line));
+        const token = tokenizer.tokenAt(tokens, position.character);
+        return token !== undefined && token === tokenizer.elementNameToken(tokens);
+    }
+
+    function provideDefinition(params: lsp.TextDocumentPositionParams, token: lsp.CancellationToken): Promise<lsp.LocationLink[] | null> | undefined {
+        const document = modelDocument(params.textDocument.uri);
+        if (document) {
+            // link targets of an element name are the referencing elements, not a definition
+            if (isOnElementName(document, params.position)) {
+                return Promise.resolve(null);
+            }
+            const ctx = extractContext(document, params.position);
+            return requestForDocument(document.uri, (rtextClient) => {
+                return rtextClient.getLinkTargets(ctx, token).then((response: protocol.LinkTargetsResponse) => {
+                    if (response.targets === undefined || response.targets.length === 0) {
+                        return null;
+                    }
+                    const originSelectionRange = linkRange(ctx, params.position, response);
+                    return response.targets.map((target) => {
+                        const targetSelectionRange = elementNameRange(documentForFile(target.file), target.line - 1);
+                        return lsp.LocationLink.create(
+                            pathToFileURL(target.file).toString(),
+                            lsp.Range.create(target.line - 1, 0, target.line - 1, lsp.uinteger.MAX_VALUE),
+                            targetSelectionRange,
+                            originSelectionRange
+                        );
+                    });
+                });
+            });
+        }
+    }
+
+    connection.onDefinition((params: lsp.DefinitionParams, token: lsp.CancellationToken) => provideDefinition(params, token));
+
+    connection.onDeclaration((params: lsp.DeclarationParams, token: lsp.CancellationToken) => provideDefinition(params, token));
+
+    // Finds the name of the element at a position, or of the element referenced there
+    async function resolveElementName(
+        rtextClient: client.Client, document: TextDocument, position: lsp.Position, token: lsp.CancellationToken
+    ): Promise<[TextDocument, lsp.Position] | undefined> {
+        if (isOnElementName(document, position)) {
+            return [document, position];
+        }
+        // the referenced element is resolved first, its name is where the referencing elements are looked up
+        const response = await rtextClient.getLinkTargets(extractContext(document, position), token);
+        const target = response.targets?.[0];
+        const targetDocument = target && documentForFile(target.file);
+        if (!target || !targetDocument) {
+            return undefined;
+        }
+        const namePosition = elementNameRange(targetDocument, target.line - 1).start;
+        return isOnElementName(targetDocument, namePosition) ? [targetDocument, namePosition] : undefined;
     }
-});
-
-connection.onCompletion((params: lsp.CompletionParams): Promise<lsp.CompletionItem[] | null> | undefined => {
-    function createSnippetString(insert: string): string {
-        let begin = 0;
-        let snippet = "";
-        while (begin != -1) {
-            const pos = begin;
-            begin = insert.indexOf('|', begin);
-            if (pos != begin) {
-                const text = insert.substring(pos, begin === -1 ? insert.length : begin);
-                snippet = snippet.concat(text);
+
+    connection.onReferences((params: lsp.ReferenceParams, token: lsp.CancellationToken): Promise<lsp.Location[] | null> | undefined => {
+        const document = modelDocument(params.textDocument.uri);
+        if (document) {
+            return requestForDocument(document.uri, async (rtextClient) => {
+                const element = await resolveElementName(rtextClient, document, params.position, token);
+                if (!element) {
+                    return [];
+                }
+                const [elementDocument, position] = element;
+                const nameRange = elementNameRange(elementDocument, position.line);
+                const name = elementDocument.getText(nameRange);
+                const response = await rtextClient.getLinkTargets(extractContext(elementDocument, position), token);
+                const locations: lsp.Location[] = (response.targets ?? []).map((target) => {
+                    return {
+                        uri: pathToFileURL(target.file).toString(),
+                        range: referenceRange(target.file, target.line - 1, name)
+                    };
+                });
+                if (params.context.includeDeclaration) {
+                    locations.unshift({ uri: elementDocument.uri, range: nameRange });
+                }
+                return locations;
+            });
+        }
+    });
+
+    connection.onPrepareRename((params: lsp.PrepareRenameParams, token: lsp.CancellationToken): Promise<lsp.PrepareRenameResult | null> | undefined => {
+        const document = modelDocument(params.textDocument.uri);
+        if (document) {
+            const tokens = tokenizer.tokenize(lineText(document, params.position.line));
+            const renamed = tokenizer.tokenAt(tokens, params.position.character);
+            if (!renamed) {
+                return Promise.resolve(null);
+            }
+            if (renamed === tokenizer.elementNameToken(tokens)) {
+                if (!rename.isValidName(renamed.text)) {
+                    return Promise.reject(new lsp.ResponseError(lsp.ErrorCodes.InvalidRequest, 'Only element names without quotes can be renamed'));
+                }
+                return Promise.resolve({ range: tokenRange(params.position.line, renamed), placeholder: renamed.text });
+            }
+            if (!tokenizer.isReferenceCandidate(tokens, renamed) || renamed.kind === tokenizer.TokenKind.String) {
+                return Promise.resolve(null);
             }
-            if (begin != -1) {
-                let end = insert.indexOf('|', begin);
-                const number = parseInt(insert.substring(begin, end));
+            return requestForDocument(document.uri, async (rtextClient) => {
+                const element = await resolveElementName(rtextClient, document, params.position, token);
+                if (!element) {
+                    return null;
+                }
+                // the last segment of a reference path is the name of the referenced element
+                const start = renamed.start + renamed.text.lastIndexOf('/') + 1;
+                return {
+                    range: lsp.Range.create(params.position.line, start, params.position.line, renamed.end),
+                    placeholder: renamed.text.substring(start - renamed.start)
+                };
+            });
+        }
+    });
 
-                begin = end;
-                end = insert.indexOf('|', begin);
-                const name = insert.substring(begin, end);
+    connection.onRenameRequest((params: lsp.RenameParams, token: lsp.CancellationToken): Promise<lsp.WorkspaceEdit | null> | undefined => {
+        const document = modelDocument(params.textDocument.uri);
+        if (document) {
+            if (!rename.isValidName(params.newName)) {
+                return Promise.reject(new lsp.ResponseError(lsp.ErrorCodes.InvalidParams, `'${params.newName}' is not a valid element name`));
+            }
+            return requestForDocument(document.uri, async (rtextClient) => {
+                const resolved = await resolveElementName(rtextClient, document, params.position, token);
+                const element = resolved && rename.elementAt(outline.parse(resolved[0].getText().split(/\r?\n/)), resolved[1].line);
+                if (!resolved || !element || !rename.isValidName(element.node.name ?? '')) {
+                    throw new lsp.ResponseError(lsp.ErrorCodes.InvalidRequest, 'No element to rename at this position');
+                }
+                const [elementDocument, position] = resolved;
 
-                begin = end;
-                end = insert.indexOf('|', begin);
-                // eslint-disable-next-line @typescript-eslint/no-unused-vars
-                const description = insert.substring(begin, end);
+                // an element with the new name must not exist already
+                const newPath = [...element.path.slice(0, -1), params.newName];
+                const found = await rtextClient.findElements(params.newName, token);
+                for (const e of found.elements ?? []) {
+                    const other = documentForFile(e.file);
+                    const existing = other && rename.elementAt(outline.parse(other.getText().split(/\r?\n/)), e.line - 1);
+                    if (existing && existing.path.join('/') === newPath.join('/')) {
+                        throw new lsp.ResponseError(lsp.ErrorCodes.InvalidParams, `Element /${newPath.join('/')} already exists`);
+                    }
+                }
 
-                begin = end;
-                snippet = snippet.concat(`\$\{${number}:${name}\}`);
+                const workspaceEdit: lsp.WorkspaceEdit = {};
+                rename.addEdits(workspaceEdit, elementDocument.uri, [lsp.TextEdit.replace(elementNameRange(elementDocument, position.line), params.newName)]);
+                // paths to the element and to the elements below it contain the renamed name
+                const renamedIndex = element.path.length - 1;
+                for (const target of [element, ...rename.descendants(element)]) {
+                    const namePosition = lsp.Position.create(target.node.selection.startLine, target.node.selection.startColumn);
+                    const response = await rtextClient.getLinkTargets(extractContext(elementDocument, namePosition), token);
+                    for (const reference of response.targets ?? []) {
+                        const referenceDocument = documentForFile(reference.file);
+                        if (referenceDocument) {
+                            const lines = referenceDocument.getText().split(/\r?\n/);
+                            const edits = rename.referenceEdits(lines, reference.line - 1, target.path, renamedIndex, params.newName);
+                            rename.addEdits(workspaceEdit, referenceDocument.uri, edits);
+                        }
+                    }
+                }
+                return workspaceEdit;
+            });
+        }
+    });
+
+    // Converts a found element to a workspace symbol, the name range is computed when resolved if the client supports it.
+    // Otherwise the documents are looked up in the cache, many elements of a search are in the same file.
+    function workspaceSymbol(
+        element: protocol.FindElement, lazy: boolean, cache: Map<string, TextDocument | undefined>
+    ): lsp.WorkspaceSymbol {
+        const display = symbols.parseElementDisplay(element.display);
+        const uri = pathToFileURL(element.file).toString();
+        let location: lsp.Location | { uri: string } = { uri };
+        if (!lazy) {
+            if (!cache.has(element.file)) {
+                cache.set(element.file, documentForFile(element.file));
             }
+            location = { uri, range: elementNameRange(cache.get(element.file), element.line - 1) };
         }
-        return snippet;
+        return {
+            name: display.name,
+            kind: symbols.symbolKindForElement(display, element.desc),
+            containerName: display.containerName,
+            location,
+            data: { file: element.file, line: element.line }
+        };
     }
-    const document = documents.get(params.textDocument.uri);
-    if (document) {
-        const ctx = extractContext(document, params.position);
-        return rtextClient.getContentCompletion(ctx).then((response: protocol.ContentCompleteResponse) => {
-            const items: lsp.CompletionItem[] = [];
-            response.options.forEach((option) => {
-                items.push({
-                    insertText: createSnippetString(option.insert),
-                    insertTextFormat: lsp.InsertTextFormat.Snippet,
-                    label: option.display,
-                    detail: option.desc,
-                    kind: lsp.CompletionItemKind.Snippet
+
+    // Truncation of the last symbol search, the notice is only shown when a search starts to be truncated
+    let symbolsTruncated = false;
+
+    connection.onWorkspaceSymbol(async (
+        params: lsp.WorkspaceSymbolParams, token: lsp.CancellationToken,
+        _workDone: lsp.WorkDoneProgressReporter, resultProgress?: lsp.ResultProgressReporter<lsp.WorkspaceSymbol[]>
+    ): Promise<lsp.WorkspaceSymbol[] | null> => {
+        const info: lsp.WorkspaceSymbol[] = [];
+        const truncation: string[] = [];
+        const cache: Map<string, TextDocument | undefined> = new Map();
+        // merge the results of all services, a failing service doesn't hide the others
+        await Promise.all(runningClients().map((rtextClient) => {
+            return rtextClient.findElements(params.query, token).then((response: protocol.FindElementsResponse) => {
+                const found = (response.elements ?? []).map((e) => workspaceSymbol(e, lazySymbolLocations, cache));
+                // each service reports its elements as soon as they arrive
+                if (resultProgress) {
+                    resultProgress.report(found);
+                } else {
+                    info.push(...found);
+                }
+                const message = symbols.truncationMessage(response, params.query);
+                if (message) {
+                    truncation.push(message);
+                }
+            }).catch(error => {
+                if (!(error instanceof errors.RequestCancelledError)) {
+                    logger.error(error.message);
+                }
+            });
+        }));
+        if (truncation.length > 0 && !symbolsTruncated) {
+            connection.window.showWarningMessage(truncation.join(' '));
+        }
+        symbolsTruncated = truncation.length > 0;
+        return info;
+    });
+
+    connection.onWorkspaceSymbolResolve((symbol: lsp.WorkspaceSymbol): lsp.WorkspaceSymbol => {
+        const data = symbol.data as { file: string, line: number } | undefined;
+        if (data && !('range' in symbol.location)) {
+            symbol.location = { uri: symbol.location.uri, range: elementNameRange(documentForFile(data.file), data.line - 1) };
+        }
+        return symbol;
+    });
+
+    connection.onDocumentSymbol((params: lsp.DocumentSymbolParams): lsp.DocumentSymbol[] | null => {
+        const document = modelDocument(params.textDocument.uri);
+        if (document) {
+            return symbols.documentSymbols(outline.parse(document.getText().split(/\r?\n/)));
+        }
+        return null;
+    });
+
+    // The candidates are confirmed by the service in batches, asking for the targets of all candidates
+    // at once would keep the service busy. Candidates the service doesn't confirm are no links
+    connection.onDocumentLinks((params: lsp.DocumentLinkParams, token: lsp.CancellationToken): Promise<lsp.DocumentLink[] | null> | undefined => {
+        const document = modelDocument(params.textDocument.uri);
+        if (document) {
+            const candidates = links.linkCandidates(document.getText().split(/\r?\n/));
+            return requestForDocument(document.uri, async (rtextClient) => {
+                const found: lsp.DocumentLink[] = [];
+                for (let i = 0; i < candidates.length && !token.isCancellationRequested; i += links.confirmBatchSize) {
+                    const results = await Promise.allSettled(candidates.slice(i, i + links.confirmBatchSize).map(async (candidate) => {
+                        const ctx = extractContext(document, candidate.start);
+                        const response = await rtextClient.getLinkTargets(ctx, token);
+                        if (response.targets?.length && links.confirmsCandidate(candidate, linkRange(ctx, candidate.start, response))) {
+                            return links.createDocumentLink(candidate, response.targets);
+                        }
+                    }));
+                    for (const result of results) {
+                        if (result.status === 'rejected') {
+                            // the other candidates would fail the same way
+                            throw result.reason;
+                        }
+                        if (result.value) {
+                            found.push(result.value);
+                        }
+                    }
+                }
+                return found;
+            });
+        }
+    });
+
+    connection.onCompletion((params: lsp.CompletionParams, token: lsp.CancellationToken): Promise<lsp.CompletionItem[] | null> | undefined => {
+        const document = documents.get(params.textDocument.uri);
+        if (document && isConfigFile(document.uri)) {
+            const lines = document.getText().split(/\r?\n/);
+            return configDocument.configCompletionItems(lines, params.position, fileURLToPath(document.uri));
+        }
+        if (document) {
+            const ctx = extractContext(document, params.position);
+            return requestForDocument(document.uri, (rtextClient) => {
+                return rtextClient.getContentCompletion(ctx, token).then((response: protocol.ContentCompleteResponse) => {
+                    return completion.createCompletionItems(
+                        response.options ?? [], lineText(document, params.position.line), params.position,
+                        rtextClient.capabilities.completionPlaceholders
+                    );
                 });
             });
-            return items;
-        }).catch(error => {
-            connection.console.error(error.message);
-            return null;
-        });
+        }
+    });
+
+    connection.onCompletionResolve((item: lsp.CompletionItem): lsp.CompletionItem => {
+        return completion.resolveCompletionItem(item);
+    });
+
+    // Last semantic tokens per document, the base of delta requests
+    const semanticTokensBuilders: Map<string, lsp.SemanticTokensBuilder> = new Map();
+
+    function documentSemanticTokens(document: TextDocument): semanticTokens.SemanticToken[] {
+        return semanticTokens.semanticTokens(document.getText().split(/\r?\n/));
     }
-});
-
-connection.onInitialize(async (params: lsp.InitializeParams): Promise<lsp.InitializeResult | lsp.ResponseError<lsp.InitializeError>> => {
-    workspaceFolder = params.rootPath;
-    connection.console.log(`[Server(${process.pid}) ${workspaceFolder}] Started and initialize received`);
-
-    settings = params.initializationOptions;
-    rtextClient = new client.Client(settings.rtextConfig);
-
-    return new Promise<lsp.InitializeResult>((resolve, reject) => {
-        rtextClient.restart().then(() => {
-            const initializeResult: lsp.InitializeResult = {
-                capabilities: {
-                    textDocumentSync: {
-                        change: lsp.TextDocumentSyncKind.Full,
-                        openClose: true,
-                    },
-                    referencesProvider: true,
-                    completionProvider: {
-                        resolveProvider: false
-                    },
-                    documentLinkProvider: {
-                        resolveProvider: true
-                    },
-                    hoverProvider: settings.hoverProvider,
-                    workspaceSymbolProvider: true
+
+    connection.languages.semanticTokens.on((params: lsp.SemanticTokensParams): lsp.SemanticTokens => {
+        const document = modelDocument(params.textDocument.uri);
+        if (!document) {
+            return { data: [] };
+        }
+        const builder = new lsp.SemanticTokensBuilder();
+        semanticTokensBuilders.set(document.uri, builder);
+        semanticTokens.build(builder, documentSemanticTokens(document));
+        return builder.build();
+    });
+
+    connection.languages.semanticTokens.onDelta((params: lsp.SemanticTokensDeltaParams): lsp.SemanticTokens | lsp.SemanticTokensDelta => {
+        const document = modelDocument(params.textDocument.uri);
+        if (!document) {
+            return { data: [] };
+        }
+        let builder = semanticTokensBuilders.get(document.uri);
+        if (builder) {
+            builder.previousResult(params.previousResultId);
+        } else {
+            builder = new lsp.SemanticTokensBuilder();
+            semanticTokensBuilders.set(document.uri, builder);
+        }
+        semanticTokens.build(builder, documentSemanticTokens(document));
+        return builder.buildEdits();
+    });
+
+    documents.onDidClose((event) => {
+        semanticTokensBuilders.delete(event.document.uri);
+    });
+
+    connection.onDocumentFormatting((params: lsp.DocumentFormattingParams): lsp.TextEdit[] | null => {
+        const document = modelDocument(params.textDocument.uri);
+        return document ? formatting.formatLines(document.getText().split(/\r?\n/), params.options) : null;
+    });
+
+    connection.onDocumentRangeFormatting((params: lsp.DocumentRangeFormattingParams): lsp.TextEdit[] | null => {
+        const document = modelDocument(params.textDocument.uri);
+        return document ? formatting.formatLines(document.getText().split(/\r?\n/), params.options, params.range) : null;
+    });
+
+    connection.onDocumentOnTypeFormatting((params: lsp.DocumentOnTypeFormattingParams): lsp.TextEdit[] | null => {
+        const document = modelDocument(params.textDocument.uri);
+        return document ? formatting.formatOnType(document.getText().split(/\r?\n/), params.position, params.options) : null;
+    });
+
+    // Services a command is executed for, selected by a document or a config file, or all of them
+    function clientsForCommand(args: CommandArguments | undefined): client.Client[] {
+        if (args?.uri) {
+            const rtextClient = args.uri.startsWith('file:') ? connectorManager.connectorForFile(fileURLToPath(args.uri), clientOptions) : undefined;
+            return rtextClient ? [rtextClient] : [];
+        }
+        if (args?.configFile) {
+            const configFile = args.configFile;
+            if (!fs.existsSync(configFile)) {
+                return [];
+            }
+            return parse_config_file(configFile).map((config) => connectorManager.connectorForConfig(config, clientOptions));
+        }
+        return connectorManager.allConnectors();
+    }
+
+    async function executeForClient(command: Command, rtextClient: client.Client): Promise<ServiceResult> {
+        const result: ServiceResult = { configFile: rtextClient.config.file, command: rtextClient.config.command };
+        switch (command) {
+            case Command.RestartService:
+                await rtextClient.restart();
+                // a loaded model is reloaded once the service is running again
+                loadModelOnce(rtextClient);
+                break;
+            case Command.ReloadModel: {
+                await rtextClient.start();
+                loadedClients.add(rtextClient);
+                const response = await loadModel(rtextClient);
+                result.totalProblems = response.total_problems;
+                break;
+            }
+            case Command.ShowVersion: {
+                await rtextClient.start();
+                result.protocolVersion = rtextClient.capabilities.protocolVersion;
+                if (rtextClient.capabilities.version) {
+                    result.serviceVersion = (await rtextClient.getVersion()).version;
                 }
-            };
-            resolve(initializeResult);
-        }).catch((error: Error) => {
-            reject(new lsp.ResponseError<lsp.InitializeError>(
-                lsp.ErrorCodes.ServerNotInitialized, error.message, { retry: true }
-            ));
+                const serviceVersion = result.serviceVersion !== undefined ? `, service version ${result.serviceVersion}` : '';
+                connection.window.showInformationMessage(
+                    `${rtextClient.config.command}: protocol version ${result.protocolVersion}${serviceVersion}`
+                );
+                break;
+            }
+            case Command.StopService:
+                await rtextClient.stop();
+                // the service is started again for the next opened document
+                loadedClients.delete(rtextClient);
+                break;
+        }
+        return result;
+    }
+
+    connection.onExecuteCommand(async (params: lsp.ExecuteCommandParams): Promise<CommandResult> => {
+        if (!commands.includes(params.command)) {
+            throw new lsp.ResponseError(lsp.ErrorCodes.InvalidParams, `Unknown command ${params.command}`);
+        }
+        const command = params.command as Command;
+        const rtextClients = clientsForCommand(params.arguments?.[0]);
+        if (rtextClients.length === 0) {
+            throw new lsp.ResponseError(lsp.ErrorCodes.InvalidParams, `No RText service found for command ${command}`);
+        }
+        // a failing service doesn't prevent the command for the others
+        const services = await Promise.all(rtextClients.map((rtextClient) => {
+            return executeForClient(command, rtextClient).catch((error: Error): ServiceResult => {
+                logger.error(`${command} failed for ${rtextClient.config.command}: ${error.message}`);
+                return { configFile: rtextClient.config.file, command: rtextClient.config.command, error: error.message };
+            });
+        }));
+        return { command, services };
+    });
+
+    connection.onInitialize((params: lsp.InitializeParams): lsp.InitializeResult => {
+        workspaceFolder = params.rootPath;
+        logger.info(`[Server(${process.pid}) ${workspaceFolder}] Started and initialize received`);
+
+        settings = params.initializationOptions;
+        logger.setLevel(settings?.logLevel);
+        logger.setTrace(params.trace);
+        Object.assign(clientOptions, {
+            command: settings?.command,
+            args: settings?.args,
+            env: settings?.env,
+            cwd: settings?.cwd,
+            attach: settings?.attach || undefined,
+            startupTimeout: settings?.startupTimeout,
+            portPattern: settings?.portPattern,
+            fatalPatterns: settings?.fatalPatterns,
+            workspaceFolder
+        });
+        hoverContentFormat = hover.hoverFormat(params.capabilities);
+        lazySymbolLocations = params.capabilities.workspace?.symbol?.resolveSupport?.properties.includes('location.range') ?? false;
+        watchedConfigFiles = params.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration ?? false;
+
+        return {
+            capabilities: {
+                textDocumentSync: {
+                    change: lsp.TextDocumentSyncKind.Full,
+                    openClose: true,
+                },
+                definitionProvider: true,
+                declarationProvider: true,
+                referencesProvider: true,
+                renameProvider: {
+                    prepareProvider: true
+                },
+                completionProvider: {
+                    resolveProvider: true
+                },
+                documentLinkProvider: {
+                    resolveProvider: false
+                },
+                // link targets are shown even if the services provide no context information,
+                // hover is off unless the client enables it
+                hoverProvider: settings?.hoverProvider === true,
+                workspaceSymbolProvider: {
+                    resolveProvider: true
+                },
+                documentSymbolProvider: true,
+                executeCommandProvider: {
+                    commands
+                },
+                documentFormattingProvider: true,
+                documentRangeFormattingProvider: true,
+                documentOnTypeFormattingProvider: {
+                    firstTriggerCharacter: formatting.onTypeTriggers[0],
+                    moreTriggerCharacter: formatting.onTypeTriggers.slice(1)
+                },
+                semanticTokensProvider: {
+                    legend: semanticTokens.legend,
+                    full: { delta: true }
+                }
+            }
+        };
+    });
+
+    // Traces the messages exchanged with the services. This replaces the handler of the library,
+    // which sets the trace of `connection.tracer`, so it is set here as well
+    connection.onNotification(lsp.SetTraceNotification.type, (params: lsp.SetTraceParams) => {
+        logger.setTrace(params.value);
+        (connection.tracer as lsp.RemoteTracer & { trace: lsp.Trace }).trace = lsp.Trace.fromString(params.value);
+    });
+
+    connection.onInitialized(() => {
+        // the services are started once the client may be notified, initialization doesn't wait for them
+        startWorkspaceClients().then((started) => started.forEach((c) => loadModelOnce(c)), (error: Error) => {
+            logger.error(error.message);
         });
+        if (watchedConfigFiles) {
+            connection.client.register(lsp.DidChangeWatchedFilesNotification.type, { watchers: [{ globPattern: '**/.rtext' }] });
+        }
     });
-});
 
-connection.onInitialized(() => {
-    provideDiagnostics();
-});
+    // Services are started on demand for the documents which are opened
+    documents.onDidOpen((event) => {
+        clientForDocument(event.document.uri).catch((error: Error) => {
+            logger.error(error.message);
+        });
+    });
 
-connection.onDidChangeWatchedFiles(() => {
-    provideDiagnostics();
-});
+    documents.onDidChangeContent((event) => {
+        if (isConfigFile(event.document.uri)) {
+            provideConfigDiagnostics(fileURLToPath(event.document.uri));
+        }
+    });
 
-// Make the text document manager listen on the connection
-// for open, change and close text document events
-documents.listen(connection);
+    connection.onDidChangeWatchedFiles(async (params: lsp.DidChangeWatchedFilesParams) => {
+        const configFiles = new Set(params.changes.filter((c) => isConfigFile(c.uri)).map((c) => fileURLToPath(c.uri)));
+        for (const configFile of configFiles) {
+            await reloadConfig(configFile);
+        }
+        if (params.changes.some((c) => !isConfigFile(c.uri))) {
+            provideAllDiagnostics();
+        }
+    });
 
-// Listen on the connection
-connection.listen();
+    // Make the text document manager listen on the connection
+    // for open, change and close text document events
+    documents.listen(connection);
 
-connection.onShutdown(() => {
-    rtextClient.stop();
-});
+    // Listen on the connection
+    connection.listen();
+
+    connection.onShutdown(async () => {
+        await Promise.all(connectorManager.allConnectors().map((c) => c.stop()));
+    });
+}
+
+if (require.main === module) {
+    // Creates the LSP connection
+    startServer(lsp.createConnection(lsp.ProposedFeatures.all));
+}
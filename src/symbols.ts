@@ -0,0 +1,110 @@
+import * as lsp from 'vscode-languageserver/node';
+
+import * as outline from './rtext/outline';
+import * as protocol from './rtext/protocol';
+
+// Command name fragments and the symbol kind they suggest, the first match wins
+const commandKinds: [RegExp, lsp.SymbolKind][] = [
+    [/package|namespace|module|component|library/i, lsp.SymbolKind.Module],
+    [/interface|port/i, lsp.SymbolKind.Interface],
+    [/enum|literal/i, lsp.SymbolKind.Enum],
+    [/class|type|struct|record/i, lsp.SymbolKind.Class],
+    [/constructor/i, lsp.SymbolKind.Constructor],
+    [/function|method|operation|runnable|action/i, lsp.SymbolKind.Function],
+    [/event|signal|message/i, lsp.SymbolKind.Event],
+    [/const|define/i, lsp.SymbolKind.Constant],
+    [/attribute|property|prop$|field|member/i, lsp.SymbolKind.Property],
+    [/variable|var$|param|argument/i, lsp.SymbolKind.Variable],
+    [/file|document/i, lsp.SymbolKind.File],
+];
+
+/**
+ * Guesses the symbol kind of an element from its command (the metamodel class name).
+ */
+export function symbolKindForCommand(command: string): lsp.SymbolKind {
+    const found = commandKinds.find(([re]) => re.test(command));
+    return found ? found[1] : lsp.SymbolKind.Object;
+}
+
+function spanRange(span: outline.Span): lsp.Range {
+    return lsp.Range.create(span.startLine, span.startColumn, span.endLine, span.endColumn);
+}
+
+function unquote(name: string): string {
+    return name.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Converts the outline of an RText document to document symbols.
+ */
+export function documentSymbols(nodes: outline.OutlineNode[]): lsp.DocumentSymbol[] {
+    return nodes.map((node) => {
+        if (node.kind === outline.OutlineKind.Label) {
+            return lsp.DocumentSymbol.create(
+                node.command, undefined, lsp.SymbolKind.Array,
+                spanRange(node.span), spanRange(node.selection), documentSymbols(node.children)
+            );
+        }
+        return lsp.DocumentSymbol.create(
+            node.name !== undefined ? unquote(node.name) : node.command,
+            node.name !== undefined ? node.command : undefined,
+            symbolKindForCommand(node.command),
+            spanRange(node.span), spanRange(node.selection), documentSymbols(node.children)
+        );
+    });
+}
+
+export interface ElementDisplay {
+    name: string;
+
+    /**
+     * Metamodel class of the element, if the service tells it
+     */
+    className?: string;
+
+    /**
+     * Qualified path of the parent element
+     */
+    containerName?: string;
+}
+
+/**
+ * Splits the display text of a found element, services show it like `Base [Type] - /Main/Base`.
+ * The name may also be a qualified path, the part in brackets and the path are optional.
+ */
+export function parseElementDisplay(display: string): ElementDisplay {
+    const m = display.match(/^(.*?)(?:\s*\[([^\]]*)\])?(?:\s+-\s+(.*))?$/);
+    let name = m?.[1] || display;
+    let path = m?.[3]?.trim();
+    if (name.includes('/')) {
+        path = name;
+        name = name.substring(name.lastIndexOf('/') + 1);
+    }
+    // the path may end with the element itself
+    if (path !== undefined && path.endsWith(`/${name}`)) {
+        path = path.substring(0, path.length - name.length - 1);
+    }
+    return { name, className: m?.[2]?.trim() || undefined, containerName: path || undefined };
+}
+
+/**
+ * Guesses the symbol kind of a found element from the class in its display text, or from its description.
+ */
+export function symbolKindForElement(display: ElementDisplay, desc?: string): lsp.SymbolKind {
+    if (display.className) {
+        return symbolKindForCommand(display.className);
+    }
+    return desc ? symbolKindForCommand(desc) : lsp.SymbolKind.Object;
+}
+
+/**
+ * Tells how many found elements were not returned, if the service truncated the result.
+ */
+export function truncationMessage(response: protocol.FindElementsResponse, query: string): string | undefined {
+    const returned = response.elements?.length ?? 0;
+    if (response.total_elements === -1) {
+        return `The search for '${query}' was truncated, only ${returned} elements are shown.`;
+    } else if (response.total_elements > returned) {
+        return `Found ${response.total_elements} elements for '${query}', only ${returned} of them are shown.`;
+    }
+}
@@ -0,0 +1,335 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Client, CancellationToken, ClientOptions, ServiceStatus, parseServiceAddress } from '../rtext/client';
+import { UnknownCommandError, UnsupportedVersionError, RequestCancelledError, ServiceStartError } from '../rtext/errors';
+import * as protocol from '../rtext/protocol';
+import { MockService } from './mockService';
+import { createWorkspace, removeWorkspace, waitFor } from './helpers';
+
+class TestCancellationToken implements CancellationToken {
+    public isCancellationRequested = false;
+    private _listeners: (() => void)[] = [];
+
+    public onCancellationRequested(listener: () => void) {
+        this._listeners.push(listener);
+        return { dispose: () => { this._listeners = this._listeners.filter((l) => l !== listener); } };
+    }
+
+    public cancel() {
+        this.isCancellationRequested = true;
+        this._listeners.forEach((l) => l());
+    }
+}
+
+describe('Client', function () {
+    this.timeout(10000);
+
+    const keepAliveInterval = Client.keepAliveInterval;
+    const reconnectDelay = Client.reconnectDelay;
+    const maxReconnectAttempts = Client.maxReconnectAttempts;
+    const disconnectTimeout = Client.disconnectTimeout;
+    let service: MockService;
+    let dir: string;
+    let rtextClient: Client;
+    let statuses: ServiceStatus[];
+
+    beforeEach(async () => {
+        service = new MockService();
+        await service.listen();
+        dir = createWorkspace({});
+        statuses = [];
+        rtextClient = new Client(
+            { file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: service.command, paths: [] },
+            { onStatusChange: (_client, status) => statuses.push(status) }
+        );
+    });
+
+    afterEach(async () => {
+        Client.keepAliveInterval = keepAliveInterval;
+        Client.reconnectDelay = reconnectDelay;
+        Client.maxReconnectAttempts = maxReconnectAttempts;
+        Client.disconnectTimeout = disconnectTimeout;
+        await rtextClient.stop();
+        await service.close();
+        removeWorkspace(dir);
+    });
+
+    it('starts the service and negotiates the protocol version', async () => {
+        await rtextClient.start();
+        assert.strictEqual(service.connections, 1);
+        assert.strictEqual(service.requestsOf('version').length, 1);
+        assert.strictEqual(rtextClient.capabilities.protocolVersion, 1);
+    });
+
+    it('falls back to protocol 0 if the service does not know the version command', async () => {
+        service.on('version', (_request, reply) => reply.unknownCommand());
+        await rtextClient.start();
+        assert.deepStrictEqual(rtextClient.capabilities, protocol.serviceCapabilities(0));
+
+        await rtextClient.loadModel();
+        assert.strictEqual(service.requestsOf('load_model')[0].version, 0);
+    });
+
+    it('sends the context and resolves the response', async () => {
+        service.on('context_info', (request) => ({ desc: `${request.context.join('|')} @${request.column}` }));
+        await rtextClient.start();
+        const response = await rtextClient.getContextInformation({ lines: ['A a {', '  B b'], pos: 3 });
+        assert.strictEqual(response.desc, 'A a {|  B b @3');
+    });
+
+    it('reports progress before the response', async () => {
+        service.on('load_model', (_request, reply) => {
+            reply.progress(50, 'loading');
+            reply.progress(undefined, 'checking');
+            reply.respond({ total_problems: 0, problems: [] });
+        });
+        await rtextClient.start();
+        const progress: protocol.ProgressInformation[] = [];
+        await rtextClient.loadModel((p) => progress.push(p));
+        assert.deepStrictEqual(progress.map((p) => [p.percentage, p.message]), [[50, 'loading'], [undefined, 'checking']]);
+    });
+
+    it('rejects requests with unknown commands', async () => {
+        service.on('find_elements', (_request, reply) => reply.unknownCommand());
+        await rtextClient.start();
+        await assert.rejects(rtextClient.findElements('a'), UnknownCommandError);
+    });
+
+    it('rejects requests with unsupported versions', async () => {
+        await rtextClient.start();
+        service.on('find_elements', (_request, reply) => reply.unsupportedVersion(0));
+        await assert.rejects(rtextClient.findElements('a'), UnsupportedVersionError);
+    });
+
+    it('rejects cancelled requests and discards their late responses', async () => {
+        let late = () => { };
+        service.on('link_targets', (_request, reply) => {
+            late = () => reply.respond({ begin_column: 1, end_column: 2, targets: [] });
+        });
+        await rtextClient.start();
+        const token = new TestCancellationToken();
+        const request = rtextClient.getLinkTargets({ lines: ['A'], pos: 1 }, token);
+        await waitFor(() => service.requestsOf('link_targets').length === 1);
+        token.cancel();
+        await assert.rejects(request, RequestCancelledError);
+
+        late();
+        service.on('context_info', () => ({ desc: 'next' }));
+        assert.strictEqual((await rtextClient.getContextInformation({ lines: ['A'], pos: 1 })).desc, 'next');
+    });
+
+    it('sends keep alive requests', async () => {
+        Client.keepAliveInterval = 50;
+        await rtextClient.start();
+        await waitFor(() => service.requestsOf('version').length >= 3);
+    });
+
+    it('reconnects when the connection is dropped', async () => {
+        Client.reconnectDelay = 10;
+        await rtextClient.start();
+        service.dropConnections();
+        await waitFor(() => service.connections === 1 && service.requestsOf('version').length === 2);
+        service.on('context_info', () => ({ desc: 'reconnected' }));
+        assert.strictEqual((await rtextClient.getContextInformation({ lines: ['A'], pos: 1 })).desc, 'reconnected');
+    });
+
+    it('reconnects when the service process exits', async () => {
+        Client.reconnectDelay = 10;
+        await rtextClient.start();
+        rtextClient['_serverProcess']?.kill('SIGKILL');
+        await waitFor(() => statuses.filter((s) => s.state === 'running').length === 2);
+        const reconnecting = statuses.find((s) => s.state === 'reconnecting');
+        assert.match(reconnecting?.reason ?? '', /exited unexpectedly with signal SIGKILL/);
+    });
+
+    it('gives up reconnecting after the maximum number of attempts', async () => {
+        Client.reconnectDelay = 10;
+        Client.maxReconnectAttempts = 2;
+        await rtextClient.start();
+        await service.close();
+        await waitFor(() => statuses[statuses.length - 1].state === 'failed');
+        assert.deepStrictEqual(statuses.map((s) => s.state), [
+            'starting', 'running', 'reconnecting', 'starting', 'reconnecting', 'starting', 'failed'
+        ]);
+        assert.match(statuses[statuses.length - 1].reason ?? '', /gave up after 2 reconnect attempts/);
+    });
+
+    it('stops the service', async () => {
+        await rtextClient.start();
+        await rtextClient.stop();
+        assert.strictEqual(service.requestsOf('stop').length, 1);
+        await waitFor(() => service.connections === 0);
+        assert.deepStrictEqual(statuses.map((s) => s.state), ['starting', 'running', 'stopped']);
+    });
+
+    it('tokenizes the command line and expands variables', () => {
+        process.env.RTEXT_TEST_VALUE = 'from env';
+        try {
+            const launchClient = new Client(
+                { file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: 'node "/my dir/service.js"  ${env:RTEXT_TEST_VALUE}', paths: [] },
+                { args: ['${workspaceFolder}/model'], env: { MODEL: '${env:RTEXT_TEST_VALUE}' }, cwd: 'sub', workspaceFolder: '/workspace' }
+            );
+            const launch = launchClient.launchCommand(launchClient.config);
+            assert.strictEqual(launch.command, 'node');
+            assert.deepStrictEqual(launch.args, ['/my dir/service.js', 'from env', '/workspace/model']);
+            assert.strictEqual(launch.cwd, path.join(dir, 'sub'));
+            assert.strictEqual(launch.env.MODEL, 'from env');
+        } finally {
+            delete process.env.RTEXT_TEST_VALUE;
+        }
+    });
+
+    it('replaces the executable of the command line by the command of the options', () => {
+        const launchClient = new Client(
+            { file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: 'ruby /gems/bin/rtext-service -m 100 model "my dir"', paths: [] },
+            { command: 'bundle exec rtext-service' }
+        );
+        const launch = launchClient.launchCommand(launchClient.config);
+        assert.strictEqual(launch.command, 'bundle');
+        assert.deepStrictEqual(launch.args, ['exec', 'rtext-service', '-m', '100', 'model', 'my dir']);
+    });
+
+    it('launches the command of the options in the working directory of the options', async () => {
+        const modelDir = path.join(dir, 'model dir');
+        fs.mkdirSync(modelDir);
+        const [command, ...args] = service.command.split(' ');
+        rtextClient = new Client(
+            { file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: 'unknown-service', paths: [] },
+            { command: `${command} "\${env:RTEXT_MOCK_SCRIPT}"`, args: args.slice(1), cwd: 'model dir' }
+        );
+        process.env.RTEXT_MOCK_SCRIPT = args[0];
+        try {
+            await rtextClient.start();
+        } finally {
+            delete process.env.RTEXT_MOCK_SCRIPT;
+        }
+        assert.strictEqual(service.connections, 1);
+    });
+
+    it('parses service addresses', () => {
+        assert.deepStrictEqual(parseServiceAddress('localhost:9000'), { host: 'localhost', port: 9000 });
+        assert.deepStrictEqual(parseServiceAddress('[::1]:9000'), { host: '::1', port: 9000 });
+        assert.deepStrictEqual(parseServiceAddress('9000'), { host: '127.0.0.1', port: 9000 });
+        assert.deepStrictEqual(parseServiceAddress('/tmp/rtext.sock'), { path: '/tmp/rtext.sock' });
+    });
+
+    it('attaches to a running service without launching or stopping it', async () => {
+        Client.reconnectDelay = 10;
+        rtextClient = new Client(
+            { file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: 'unknown-service', paths: [] },
+            { attach: `127.0.0.1:${service.port}`, onStatusChange: (_client, status) => statuses.push(status) }
+        );
+        await rtextClient.start();
+        assert.strictEqual(service.connections, 1);
+        assert.strictEqual(rtextClient['_serverProcess'], undefined);
+
+        service.dropConnections();
+        await waitFor(() => statuses.filter((s) => s.state === 'running').length === 2);
+        assert.strictEqual(service.connections, 1);
+
+        await rtextClient.stop();
+        assert.strictEqual(service.requestsOf('stop').length, 0);
+        await waitFor(() => service.connections === 0);
+    });
+
+    it('aborts a pending start when stopped', async () => {
+        const started = rtextClient.start();
+        await rtextClient.stop();
+        await assert.rejects(started);
+        assert.deepStrictEqual(statuses.map((s) => s.state), ['starting', 'stopped']);
+        assert.strictEqual(service.connections, 0);
+    });
+
+    it('aborts a pending connection to an attached service when stopped', async () => {
+        rtextClient = new Client(
+            { file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: 'unknown-service', paths: [] },
+            { attach: `127.0.0.1:${service.port}`, onStatusChange: (_client, status) => statuses.push(status) }
+        );
+        const started = rtextClient.start();
+        await rtextClient.stop();
+        await assert.rejects(started, /was cancelled/);
+        assert.deepStrictEqual(statuses.map((s) => s.state), ['starting', 'stopped']);
+        assert.strictEqual(service.connections, 0);
+    });
+
+    it('destroys the connection of an attached service which does not close it', async () => {
+        Client.disconnectTimeout = 50;
+        service.ignoreEnd = true;
+        rtextClient = new Client(
+            { file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: 'unknown-service', paths: [] },
+            { attach: `127.0.0.1:${service.port}`, onStatusChange: (_client, status) => statuses.push(status) }
+        );
+        await rtextClient.start();
+        await rtextClient.stop();
+        assert.strictEqual(statuses[statuses.length - 1].state, 'stopped');
+        assert.strictEqual(rtextClient['_client'].destroyed, true);
+        service.dropConnections();
+    });
+
+    function failingClient(script: string, options: ClientOptions = {}): Client {
+        return new Client({ file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: `node -e "${script}"`, paths: [] }, options);
+    }
+
+    it('attaches the output and exit code if the service exits while starting', async () => {
+        rtextClient = failingClient("console.log('starting'); console.error('boom'); process.exit(3)");
+        await assert.rejects(rtextClient.start(), (error: ServiceStartError) => {
+            assert.match(error.message, /exited with code 3 before reporting its port/);
+            assert.strictEqual(error.exitCode, 3);
+            assert.deepStrictEqual([...error.output].sort(), ['boom', 'starting']);
+            return true;
+        });
+    });
+
+    it('fails if the service does not report its port in time', async () => {
+        rtextClient = failingClient('setTimeout(() => {}, 10000)', { startupTimeout: 200 });
+        await assert.rejects(rtextClient.start(), /didn't report its port within 0.2 seconds/);
+    });
+
+    it('fails if the command line is empty after expanding its variables', async () => {
+        rtextClient = new Client({ file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: '${env:RTEXT_TEST_UNSET}', paths: [] });
+        await assert.rejects(rtextClient.start(), (error: ServiceStartError) => {
+            assert.ok(error instanceof ServiceStartError);
+            assert.match(error.message, /is empty after expanding its variables/);
+            return true;
+        });
+    });
+
+    it('fails without a pending timeout if the service cannot be spawned', async () => {
+        rtextClient = failingClient('', { args: ['invalid\0argument'], startupTimeout: 50 });
+        await assert.rejects(rtextClient.start(), /Failed to run service/);
+        // the startup timeout would throw an uncaught error
+        await new Promise((resolve) => setTimeout(resolve, 100));
+    });
+
+    it('fails on fatal stderr output', async () => {
+        rtextClient = failingClient("console.error('FATAL: no license'); setTimeout(() => {}, 10000)", { fatalPatterns: ['FATAL: .*'] });
+        await assert.rejects(rtextClient.start(), (error: ServiceStartError) => {
+            assert.match(error.message, /failed: FATAL: no license$/);
+            assert.deepStrictEqual(error.output, ['FATAL: no license']);
+            return true;
+        });
+    });
+
+    it('keeps a running service which reports fatal stderr output', async () => {
+        rtextClient = failingClient(
+            `console.log('listening on port ${service.port}'); setTimeout(() => console.error('FATAL: lost license'), 100); setTimeout(() => {}, 10000)`,
+            { fatalPatterns: ['FATAL: .*'] }
+        );
+        await rtextClient.start();
+        const serverProcess = rtextClient['_serverProcess']!;
+        await new Promise((resolve) => serverProcess.stderr!.once('data', resolve));
+        assert.strictEqual(serverProcess.exitCode, null);
+        assert.strictEqual(serverProcess.killed, false);
+    });
+
+    it('detects the port with a custom pattern', async () => {
+        rtextClient = new Client(
+            { file: path.join(dir, '.rtext'), patterns: ['*.mock'], command: service.command, paths: [] },
+            { portPattern: '^RText service, listening on port (\\d+)' }
+        );
+        await rtextClient.start();
+        assert.strictEqual(service.connections, 1);
+    });
+});
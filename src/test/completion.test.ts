@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver/node';
+
+import * as completion from '../completion';
+
+describe('completion', () => {
+    describe('createSnippet', () => {
+        it('numbers placeholders without number', () => {
+            const snippet = completion.createSnippet('Type ||, super: |||Base type|');
+            assert.strictEqual(snippet.text, 'Type ${1}, super: ${2}');
+            assert.deepStrictEqual(snippet.placeholders.map((p) => [p.tabstop, p.desc]), [[1, ''], [2, 'Base type']]);
+        });
+
+        it('skips numbers which are used explicitly', () => {
+            const snippet = completion.createSnippet('Type |1|name||, ||, ||||');
+            assert.strictEqual(snippet.text, 'Type ${1:name}, ${2}, ${3}');
+        });
+
+        it('does not take the text after a placeholder without description as description', () => {
+            const snippet = completion.createSnippet('Foo |1|name|, bar: |2|val|');
+            assert.strictEqual(snippet.text, 'Foo ${1:name}, bar: ${2:val}');
+            assert.deepStrictEqual(snippet.placeholders, [
+                { tabstop: 1, name: 'name', desc: '' }, { tabstop: 2, name: 'val', desc: '' }
+            ]);
+        });
+
+        it('uses one tabstop for placeholders with the same name', () => {
+            const snippet = completion.createSnippet('Pair |1|name|The name|, other: |2|name||');
+            assert.strictEqual(snippet.text, 'Pair ${1:name}, other: ${1:name}');
+            assert.deepStrictEqual(snippet.placeholders, [{ tabstop: 1, name: 'name', desc: 'The name' }]);
+            assert.strictEqual(snippet.plain, 'Pair name, other: name');
+        });
+
+        it('escapes snippet syntax in text and names', () => {
+            const snippet = completion.createSnippet('Text "$x}\\" |1||| $}');
+            assert.strictEqual(snippet.text, 'Text "\\$x\\}\\\\" ${1} \\$\\}');
+        });
+
+        it('keeps text without placeholders', () => {
+            assert.strictEqual(completion.createSnippet('Type ').text, 'Type ');
+        });
+    });
+
+    describe('createCompletionItems', () => {
+        it('derives the kind of the inserted text', () => {
+            const options = [
+                { display: 'Type', insert: 'Type ||', desc: '' },
+                { display: 'super:', insert: 'super: ', desc: '' },
+                { display: '/Main/Base', insert: '/Main/Base', desc: '' },
+                { display: 'true', insert: 'true', desc: '' },
+                { display: 'public', insert: 'public', desc: '' },
+            ];
+            const kinds = completion.createCompletionItems(options, '  ', lsp.Position.create(0, 2), true).map((i) => i.kind);
+            assert.deepStrictEqual(kinds, [
+                lsp.CompletionItemKind.Class, lsp.CompletionItemKind.Property, lsp.CompletionItemKind.Reference,
+                lsp.CompletionItemKind.Value, lsp.CompletionItemKind.Class
+            ]);
+            const argument = completion.createCompletionItems(options.slice(4), '  Type A, vis: pu', lsp.Position.create(0, 17), true);
+            assert.strictEqual(argument[0].kind, lsp.CompletionItemKind.EnumMember);
+        });
+
+        it('replaces the token at the cursor', () => {
+            const items = completion.createCompletionItems(
+                [{ display: '/Main/Base', insert: '/Main/Base', desc: '' }], '  Type D, super: /Main/B', lsp.Position.create(4, 24), true
+            );
+            assert.deepStrictEqual((items[0].textEdit as lsp.TextEdit).range, lsp.Range.create(4, 17, 4, 24));
+        });
+
+        it('inserts plain text if the service has no placeholders', () => {
+            const items = completion.createCompletionItems(
+                [{ display: 'Type', insert: 'Type ||', desc: '' }], '', lsp.Position.create(0, 0), false
+            );
+            assert.strictEqual(items[0].insertTextFormat, lsp.InsertTextFormat.PlainText);
+            assert.strictEqual(items[0].textEdit?.newText, 'Type ||');
+        });
+    });
+
+    describe('resolveCompletionItem', () => {
+        it('documents the description and the placeholders', () => {
+            const [item] = completion.createCompletionItems(
+                [{ display: 'Type', insert: 'Type |1|name|The name|', desc: 'A type\nwith details' }], '', lsp.Position.create(0, 0), true
+            );
+            assert.strictEqual(item.detail, 'A type');
+            assert.deepStrictEqual(completion.resolveCompletionItem(item).documentation, {
+                kind: lsp.MarkupKind.Markdown,
+                value: 'A type\nwith details\n\n- `name`: The name'
+            });
+        });
+    });
+});
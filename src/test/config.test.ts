@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { file_matches_pattern, find_service_config, parse_config } from '../rtext/config';
+import { createWorkspace, removeWorkspace } from './helpers';
+
+describe('config', () => {
+    it('parses entries with comments and Windows line endings', () => {
+        const contents = [
+            '# models',
+            '*.a, model_*.txt:',
+            'ruby rtext-service -m 100 "my model" other',
+            '',
+            '*.b:',
+            'cmd',
+        ].join('\r\n');
+        assert.deepStrictEqual(parse_config(contents, '/w/.rtext'), {
+            configs: [
+                {
+                    file: '/w/.rtext', patterns: ['*.a', 'model_*.txt'], line: 2,
+                    command: 'ruby rtext-service -m 100 "my model" other', paths: ['my model', 'other']
+                },
+                { file: '/w/.rtext', patterns: ['*.b'], command: 'cmd', paths: [], line: 5 },
+            ],
+            errors: []
+        });
+    });
+
+    it('reports malformed entries with their line', () => {
+        const contents = ['*.a:', '', '*.b,:', 'cmd', 'more', '*.c:'].join('\n');
+        const result = parse_config(contents, '/w/.rtext');
+        assert.deepStrictEqual(result.configs.map((c) => c.patterns), [['*.b']]);
+        assert.deepStrictEqual(result.errors.map((e) => [e.line, e.code]), [
+            [1, 'missing-command'], [3, 'empty-pattern'], [5, 'unexpected-line'], [6, 'missing-command']
+        ]);
+    });
+
+    it('matches file names against glob patterns', () => {
+        assert.ok(file_matches_pattern('/w/main.a', '*.a'));
+        assert.ok(!file_matches_pattern('/w/main.ab', '*.a'));
+        assert.ok(file_matches_pattern('/w/model_1.txt', 'model_*.txt'));
+        assert.ok(!file_matches_pattern('/w/other.txt', 'model_*.txt'));
+        assert.ok(file_matches_pattern('/w/model_1.txt', 'model_[0-9].t?t'));
+        assert.ok(!file_matches_pattern('/w/model_1.txt', 'model_[!0-9].txt'));
+        assert.ok(file_matches_pattern('/w/a+b.txt', 'a+b.txt'));
+    });
+
+    it('finds the config entry of a file in the parent directories', () => {
+        const dir = createWorkspace({ '.rtext': '*.mock:\nrtext-service\n', 'model/a.mock': '' });
+        try {
+            const config = find_service_config(path.join(dir, 'model/a.mock'));
+            assert.strictEqual(config?.file, path.join(dir, '.rtext'));
+            assert.deepStrictEqual(config?.patterns, ['*.mock']);
+        } finally {
+            removeWorkspace(dir);
+        }
+    });
+});
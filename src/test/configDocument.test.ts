@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as lsp from 'vscode-languageserver/node';
+
+import * as configDocument from '../configDocument';
+import { createWorkspace, removeWorkspace } from './helpers';
+
+describe('configDocument', () => {
+    let dir: string;
+    let configFile: string;
+
+    beforeEach(() => {
+        dir = createWorkspace({
+            'model/a.mock': '',
+            'model/b.mock': '',
+            'model/model_1.txt': '',
+            'other.txt': '',
+        });
+        configFile = path.join(dir, '.rtext');
+    });
+
+    afterEach(() => {
+        removeWorkspace(dir);
+    });
+
+    it('reports missing command lines, model paths and duplicate patterns', () => {
+        const text = [
+            '*.mock:',
+            'rtext-service model missing "no such dir"',
+            '*.txt, *.mock:',
+            'rtext-service',
+            '*.a:',
+        ].join('\n');
+        const found = configDocument.configDiagnostics(text, configFile, 'rtext1');
+        assert.deepStrictEqual(found.map((d) => [d.code, d.range]), [
+            ['missing-command', lsp.Range.create(4, 0, 4, 4)],
+            ['missing-path', lsp.Range.create(1, 20, 1, 27)],
+            ['missing-path', lsp.Range.create(1, 28, 1, 41)],
+            ['duplicate-pattern', lsp.Range.create(2, 7, 2, 13)],
+        ]);
+        assert.match(found[3].message, /already used in line 1/);
+    });
+
+    it('completes flags on command lines', async () => {
+        const lines = ['*.mock:', 'rtext-service --t'];
+        const items = await configDocument.configCompletionItems(lines, lsp.Position.create(1, 17), configFile);
+        assert.ok(items.some((i) => i.label === '--text-ext'));
+        assert.deepStrictEqual(items[0].textEdit, lsp.TextEdit.replace(lsp.Range.create(1, 14, 1, 17), items[0].label));
+        assert.deepStrictEqual(await configDocument.configCompletionItems(lines, lsp.Position.create(1, 3), configFile), []);
+    });
+
+    it('completes file patterns which are not used yet', async () => {
+        const lines = ['*.mock, *', 'rtext-service'];
+        const items = await configDocument.configCompletionItems(lines, lsp.Position.create(0, 9), configFile);
+        assert.deepStrictEqual(items.map((i) => [i.label, i.detail]), [['*.txt', '2 files']]);
+        assert.deepStrictEqual(items[0].textEdit, lsp.TextEdit.replace(lsp.Range.create(0, 8, 0, 9), '*.txt'));
+    });
+
+    it('shows the files matched by a pattern list', async () => {
+        const lines = ['model_*.txt, *.mock:', 'rtext-service'];
+        const hover = await configDocument.configHover(lines, lsp.Position.create(0, 2), configFile, lsp.MarkupKind.PlainText);
+        const value = (hover?.contents as lsp.MarkupContent).value.split('\n');
+        assert.strictEqual(value[0], 'model_*.txt, *.mock matches 3 files:');
+        assert.deepStrictEqual(value.slice(1).sort(), ['model/a.mock', 'model/b.mock', 'model/model_1.txt']);
+        assert.strictEqual(await configDocument.configHover(lines, lsp.Position.create(1, 2), configFile, lsp.MarkupKind.PlainText), null);
+    });
+});
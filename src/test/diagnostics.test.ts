@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver/node';
+
+import * as diagnostics from '../diagnostics';
+import * as protocol from '../rtext/protocol';
+
+const line = '  Type Derived, super: /Main/Base, kind: abstract, tags: [first, second], desc: "a type"';
+
+// Code and columns of the diagnostic for a message about the line
+function narrowed(message: string, lineText = line): [string | number | undefined, number, number] {
+    const diagnostic = diagnostics.createDiagnostic({ message, severity: protocol.ProblemSeverity.error, line: 3 }, lineText, 'rtext');
+    assert.strictEqual(diagnostic.range.start.line, 2);
+    return [diagnostic.code, diagnostic.range.start.character, diagnostic.range.end.character];
+}
+
+function loadModelResponse(total_problems: number, reported: number): protocol.LoadModelResponse {
+    const problems = Array.from({ length: reported }, (_, i) => ({ message: 'error', severity: protocol.ProblemSeverity.error, line: i + 1 }));
+    return { total_problems, problems: [{ file: '/w/a.mock', problems }] };
+}
+
+describe('diagnostics', () => {
+    it('narrows problems about the command to the command', () => {
+        assert.deepStrictEqual(narrowed("unknown command 'Type'"), ['unknown-command', 2, 6]);
+        assert.deepStrictEqual(narrowed("command 'Type' can not be used in this context"), ['command-not-allowed', 2, 6]);
+    });
+
+    it('narrows problems about an argument to its label', () => {
+        assert.deepStrictEqual(narrowed("unknown label 'kind'"), ['unknown-label', 35, 40]);
+        assert.deepStrictEqual(narrowed("unknown child label 'tags'"), ['unknown-label', 51, 56]);
+        assert.deepStrictEqual(narrowed("unknown argument 'super'"), ['unknown-argument', 16, 22]);
+        assert.deepStrictEqual(narrowed("argument 'desc' already defined"), ['duplicate-argument', 74, 79]);
+    });
+
+    it('narrows problems about the value of an argument to the value', () => {
+        assert.deepStrictEqual(narrowed("argument 'kind' can only take values of type Kind"), ['invalid-value', 41, 49]);
+        // the first value of an array
+        assert.deepStrictEqual(narrowed("argument 'tags' can only take one value"), ['too-many-values', 58, 63]);
+        assert.deepStrictEqual(narrowed("unexpected value 'abstract'"), ['invalid-value', 41, 49]);
+        assert.deepStrictEqual(narrowed("invalid argument value 'a type'"), ['invalid-value', 80, 88]);
+    });
+
+    it('narrows problems about the element to its name', () => {
+        assert.deepStrictEqual(narrowed('unexpected unlabled argument'), ['unexpected-argument', 7, 14]);
+        assert.deepStrictEqual(narrowed('duplicate identifier'), ['duplicate-identifier', 7, 14]);
+        assert.deepStrictEqual(narrowed("duplicate name 'first'"), ['duplicate-identifier', 58, 63]);
+    });
+
+    it('narrows unresolved references to the reference', () => {
+        assert.deepStrictEqual(narrowed("unresolved reference '/Main/Base'"), ['unresolved-reference', 23, 33]);
+        assert.deepStrictEqual(narrowed('unresolved reference'), ['unresolved-reference', 23, 33]);
+    });
+
+    it('narrows parse errors to the token', () => {
+        assert.deepStrictEqual(narrowed("parse error on token 'abstract'"), ['parse-error', 41, 49]);
+        // the token is not found, the problem spans the line
+        assert.deepStrictEqual(narrowed("unexpected token '}'"), ['parse-error', 2, 88]);
+    });
+
+    it('spans the line for unknown messages or without line text', () => {
+        assert.deepStrictEqual(narrowed('something went wrong'), [undefined, 2, 88]);
+        const diagnostic = diagnostics.createDiagnostic({ message: "unknown command 'Type'", severity: protocol.ProblemSeverity.warn, line: 3 }, undefined, 'rtext');
+        assert.deepStrictEqual(diagnostic.range, lsp.Range.create(2, 0, 2, lsp.uinteger.MAX_VALUE));
+        assert.strictEqual(diagnostic.severity, lsp.DiagnosticSeverity.Warning);
+    });
+
+    it('tells if not all problems were reported', () => {
+        assert.strictEqual(diagnostics.truncationMessage(loadModelResponse(2, 2)), undefined);
+        assert.strictEqual(diagnostics.truncationMessage(loadModelResponse(5, 2)),
+            'The model has 5 problems, only 2 of them are reported.');
+        assert.strictEqual(diagnostics.truncationMessage(loadModelResponse(-1, 2)),
+            'Problem detection was interrupted, only 2 problems are reported and there may be more.');
+    });
+});
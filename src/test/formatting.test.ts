@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import * as formatting from '../formatting';
+
+const options: lsp.FormattingOptions = { tabSize: 2, insertSpaces: true };
+
+function format(lines: string[], range?: lsp.Range, formattingOptions = options): string[] {
+    const document = TextDocument.create('file:///model.txt', 'rtext', 1, lines.join('\n'));
+    return TextDocument.applyEdits(document, formatting.formatLines(lines, formattingOptions, range)).split('\n');
+}
+
+describe('formatting', () => {
+    it('indents by block and array nesting', () => {
+        assert.deepStrictEqual(format([
+            'Module Main {',
+            'Type Base',
+            '      members: [',
+            'Field f',
+            '    ]',
+            '        }',
+        ]), [
+            'Module Main {',
+            '  Type Base',
+            '  members: [',
+            '    Field f',
+            '  ]',
+            '}',
+        ]);
+    });
+
+    it('aligns continuation lines with the first argument', () => {
+        assert.deepStrictEqual(format([
+            'Module Main {',
+            '  Type Derived,',
+            '  super: /Main/Base, refs: [',
+            '/A,',
+            '/B],',
+            '  abstract: true',
+            '  Type Other \\',
+            'size: 4',
+            '}',
+        ]), [
+            'Module Main {',
+            '  Type Derived,',
+            '       super: /Main/Base, refs: [',
+            '    /A,',
+            '    /B],',
+            '       abstract: true',
+            '  Type Other \\',
+            '       size: 4',
+            '}',
+        ]);
+    });
+
+    it('keeps comments and annotations in place', () => {
+        assert.deepStrictEqual(format([
+            'Module Main {',
+            '# comment',
+            '    @file: a',
+            'Type Derived,',
+            '# between',
+            'super: /Main/Base',
+            '',
+            '}',
+        ]), [
+            'Module Main {',
+            '  # comment',
+            '  @file: a',
+            '  Type Derived,',
+            '       # between',
+            '       super: /Main/Base',
+            '',
+            '}',
+        ]);
+    });
+
+    it('removes trailing whitespace only if asked', () => {
+        const lines = ['Module Main {  ', '  ', 'Type A ', '}'];
+        assert.deepStrictEqual(format(lines), ['Module Main {  ', '  ', '  Type A ', '}']);
+        assert.deepStrictEqual(format(lines, undefined, { ...options, trimTrailingWhitespace: true }), [
+            'Module Main {', '', '  Type A', '}',
+        ]);
+    });
+
+    it('formats only the lines in the range', () => {
+        assert.deepStrictEqual(format(['Module Main {', 'Type A', 'Type B', '}'], lsp.Range.create(2, 0, 2, 0)), [
+            'Module Main {', 'Type A', '  Type B', '}',
+        ]);
+    });
+
+    it('indents the new line after a newline', () => {
+        const lines = ['Module Main {', '  Type Derived,', ''];
+        assert.deepStrictEqual(formatting.formatOnType(lines, lsp.Position.create(2, 0), options), [
+            lsp.TextEdit.replace(lsp.Range.create(2, 0, 2, 0), '       ')
+        ]);
+        assert.deepStrictEqual(formatting.formatOnType(['Module Main {', '  Type A', '  }'], lsp.Position.create(2, 3), options), [
+            lsp.TextEdit.replace(lsp.Range.create(2, 0, 2, 2), '')
+        ]);
+    });
+});
@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Creates a temporary directory with the given files, the paths are relative to the directory.
+ */
+export function createWorkspace(files: { [file: string]: string }): string {
+    const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'rtext-lsp-')));
+    for (const [file, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), content);
+    }
+    return dir;
+}
+
+export function removeWorkspace(dir: string) {
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+/**
+ * Resolves once the condition is met, rejects after the timeout.
+ */
+export async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeout) {
+            throw new Error(`Condition not met within ${timeout} ms`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+
+import { Logger, LogLevel, LogSink, TraceLevel } from '../rtext/logger';
+
+function recordingSink(messages: string[]): LogSink {
+    return {
+        error: (message) => messages.push(`error ${message}`),
+        warn: (message) => messages.push(`warn ${message}`),
+        info: (message) => messages.push(`info ${message}`),
+        log: (message) => messages.push(`log ${message}`),
+    };
+}
+
+describe('logger', () => {
+    let messages: string[];
+    let logger: Logger;
+
+    beforeEach(() => {
+        messages = [];
+        logger = new Logger();
+        logger.sink = recordingSink(messages);
+    });
+
+    it('drops messages below the level', () => {
+        logger.setLevel('warning');
+        assert.strictEqual(logger.level, LogLevel.Warning);
+        logger.debug('a');
+        logger.info('b');
+        logger.warn('c');
+        logger.error('d');
+        assert.deepStrictEqual(messages, ['warn c', 'error d']);
+    });
+
+    it('traces messages according to the trace level', () => {
+        const request = { type: 'request', command: 'load_model', invocation_id: 3 };
+        logger.traceMessage('Tx', request);
+        assert.deepStrictEqual(messages, []);
+
+        logger.setTrace('messages');
+        assert.strictEqual(logger.trace, TraceLevel.Messages);
+        logger.traceMessage('Tx', request);
+        logger.traceMessage('Rx', { type: 'response', invocation_id: 3 });
+        assert.deepStrictEqual(messages, ['log Tx: load_model #3', 'log Rx: response #3']);
+
+        messages.length = 0;
+        logger.setTrace('verbose');
+        logger.traceMessage('Tx', request);
+        assert.deepStrictEqual(messages, [`log Tx: load_model #3 ${JSON.stringify(request)}`]);
+    });
+
+    it('truncates large payloads', () => {
+        logger.maxPayloadLength = 10;
+        assert.strictEqual(logger.truncate('0123456789'), '0123456789');
+        assert.strictEqual(logger.truncate('0123456789abc'), '0123456789... (3 more characters)');
+    });
+
+    it('prefixes each line of the service output', () => {
+        logger.serviceOutput('rtext service .rtext', 'first\r\nsecond\n\n', 'stdout');
+        logger.serviceOutput('rtext service .rtext', 'failed\n', 'stderr');
+        assert.deepStrictEqual(messages, [
+            'info [rtext service .rtext] first', 'info [rtext service .rtext] second', 'warn [rtext service .rtext] failed'
+        ]);
+    });
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+
+import * as message from '../rtext/message';
+
+function frame(data: Buffer, chunkSize: number): object[] {
+    const framer = new message.MessageFramer();
+    const messages: object[] = [];
+    for (let i = 0; i < data.length; i += chunkSize) {
+        messages.push(...framer.push(data.subarray(i, i + chunkSize)));
+    }
+    return messages;
+}
+
+describe('message', () => {
+    describe('escape', () => {
+        it('escapes the percent sign and non-ASCII bytes', () => {
+            assert.strictEqual(message.escape('100% ä'), '100%25 %c3%a4');
+        });
+
+        it('keeps ASCII text', () => {
+            assert.strictEqual(message.escape('Command name, ref: /a/b'), 'Command name, ref: /a/b');
+        });
+    });
+
+    describe('unescape', () => {
+        it('decodes escaped UTF-8 bytes', () => {
+            assert.strictEqual(message.unescape('%c3%a4%E2%82%AC 100%25'), 'ä€ 100%');
+        });
+
+        it('keeps percent signs which are not followed by two hex digits', () => {
+            assert.strictEqual(message.unescape('50%x %'), '50%x %');
+        });
+
+        it('decodes invalid UTF-8 as replacement character', () => {
+            assert.strictEqual(message.unescape('a%e4b'), 'a�b');
+        });
+
+        it('round-trips UTF-8 text', () => {
+            const text = 'Grüße, 日本語, emoji 😀, percent %41';
+            assert.strictEqual(message.unescape(message.escape(text)), text);
+        });
+
+        it('round-trips all characters below the surrogate range', () => {
+            let text = '';
+            for (let c = 0; c < 0xd800; c++) {
+                text += String.fromCharCode(c);
+            }
+            assert.strictEqual(message.unescape(message.escape(text)), text);
+        });
+    });
+
+    describe('serialize', () => {
+        it('prefixes the length in bytes and produces ASCII only', () => {
+            const data = message.serialize({ command: 'context_info', context: ['Elem äö'] });
+            assert.match(data, /^\d+\{/);
+            assert.ok(/^[\x00-\x7f]*$/.test(data));
+            const length = parseInt(data);
+            assert.strictEqual(Buffer.byteLength(data), String(length).length + length);
+        });
+
+        it('does not modify the object', () => {
+            const obj = { desc: 'ä' };
+            message.serialize(obj);
+            assert.deepStrictEqual(obj, { desc: 'ä' });
+        });
+    });
+
+    describe('MessageFramer', () => {
+        const objects = [
+            { type: 'response', invocation_id: 1, desc: 'Größe 10%' },
+            { type: 'progress', invocation_id: 2, percentage: 50, nested: [{ message: '日本' }, null, true] },
+            { type: 'response', invocation_id: 3, options: [] },
+        ];
+        const data = Buffer.from(objects.map((o) => message.serialize(o)).join(''));
+
+        it('extracts multiple messages from one chunk', () => {
+            assert.deepStrictEqual(frame(data, data.length), objects);
+        });
+
+        it('extracts messages received byte by byte', () => {
+            assert.deepStrictEqual(frame(data, 1), objects);
+        });
+
+        it('extracts messages split into arbitrary chunks', () => {
+            for (const size of [2, 3, 7, 16, 64]) {
+                assert.deepStrictEqual(frame(data, size), objects);
+            }
+        });
+
+        it('waits for incomplete messages', () => {
+            const framer = new message.MessageFramer();
+            assert.deepStrictEqual(framer.push(data.subarray(0, 10)), []);
+            assert.deepStrictEqual(framer.push(data.subarray(10)), objects);
+        });
+
+        it('decodes raw escapes of the service', () => {
+            const json = '{"desc":"%c3%a4%25","key%c3%a4":1}';
+            const framer = new message.MessageFramer();
+            assert.deepStrictEqual(framer.push(Buffer.from(json.length + json)), [{ desc: 'ä%', 'key%c3%a4': 1 }]);
+        });
+
+        it('rejects data without length prefix', () => {
+            const framer = new message.MessageFramer();
+            assert.throws(() => framer.push(Buffer.from('garbage{}')), /Invalid message/);
+            // the framer recovers for following messages
+            assert.deepStrictEqual(framer.push(Buffer.from(message.serialize({ a: 1 }))), [{ a: 1 }]);
+        });
+
+        it('frames large messages', () => {
+            const big = { type: 'response', problems: Array.from({ length: 5000 }, (_, i) => ({ file: `/p/ä${i}.txt`, line: i })) };
+            assert.deepStrictEqual(frame(Buffer.from(message.serialize(big)), 1024), [big]);
+        });
+    });
+});
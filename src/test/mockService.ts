@@ -0,0 +1,177 @@
+import * as net from 'net';
+import * as path from 'path';
+
+import * as message from '../rtext/message';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Message = { [key: string]: any };
+
+/**
+ * Sends messages for a single request, all messages carry the invocation id of the request.
+ */
+export class Reply {
+    private _socket: net.Socket;
+    private _request: Message;
+
+    constructor(socket: net.Socket, request: Message) {
+        this._socket = socket;
+        this._request = request;
+    }
+
+    public send(type: string, fields: object = {}) {
+        if (!this._socket.destroyed) {
+            this._socket.write(message.serialize({ type, invocation_id: this._request.invocation_id, ...fields }));
+        }
+    }
+
+    public respond(fields: object = {}) {
+        this.send("response", fields);
+    }
+
+    public progress(percentage?: number, msg?: string) {
+        this.send("progress", { percentage, message: msg });
+    }
+
+    public unknownCommand() {
+        this.send("unknown_command_error", { command: this._request.command });
+    }
+
+    public unsupportedVersion(version = 0) {
+        this.send("unsupported_version", { version });
+    }
+
+    /**
+     * Closes the connection once all messages are sent.
+     */
+    public close() {
+        this._socket.end();
+    }
+}
+
+/**
+ * Handles a request. A returned object is sent as response,
+ * otherwise the handler replies by itself, possibly later or never.
+ */
+export type Handler = (request: Message, reply: Reply) => object | void;
+
+/**
+ * Fake RText service listening on a local port within the test process.
+ * The service command for the `.rtext` file starts a process which just announces the port,
+ * like the real service does.
+ */
+export class MockService {
+    public readonly requests: Message[] = [];
+    public handlers: { [command: string]: Handler } = {};
+
+    /**
+     * Keeps the connections open when the clients end them, like a hanging service.
+     */
+    public ignoreEnd = false;
+
+    private _server = net.createServer({ allowHalfOpen: true }, (socket) => this.onConnection(socket));
+    private _sockets: net.Socket[] = [];
+    private _port = 0;
+
+    constructor() {
+        this.handlers = {
+            "version": () => ({ version: 1 }),
+            "load_model": () => ({ total_problems: 0, problems: [] }),
+            "context_info": () => ({ desc: "" }),
+            "content_complete": () => ({ options: [] }),
+            "link_targets": () => ({ begin_column: 0, end_column: 0, targets: [] }),
+            "find_elements": () => ({ total_elements: 0, elements: [] }),
+            "stop": (_request, reply) => {
+                reply.respond();
+                reply.close();
+            },
+        };
+    }
+
+    public get port(): number {
+        return this._port;
+    }
+
+    /**
+     * Command line of the service for a `.rtext` file.
+     */
+    public get command(): string {
+        return `node ${__filename.replace(/\.ts$/, ".js").split(path.sep).join("/")} ${this._port}`;
+    }
+
+    public get connections(): number {
+        return this._sockets.length;
+    }
+
+    public on(command: string, handler: Handler) {
+        this.handlers[command] = handler;
+    }
+
+    public requestsOf(command: string): Message[] {
+        return this.requests.filter((r) => r.command === command);
+    }
+
+    public listen(): Promise<number> {
+        return new Promise((resolve) => {
+            this._server.listen(0, "127.0.0.1", () => {
+                this._port = (this._server.address() as net.AddressInfo).port;
+                resolve(this._port);
+            });
+        });
+    }
+
+    /**
+     * Closes all connections like a crashing service would.
+     */
+    public dropConnections() {
+        this._sockets.forEach((s) => s.destroy());
+        this._sockets = [];
+    }
+
+    public close(): Promise<void> {
+        this.dropConnections();
+        return new Promise((resolve) => this._server.close(() => resolve()));
+    }
+
+    private onConnection(socket: net.Socket) {
+        this._sockets.push(socket);
+        const framer = new message.MessageFramer();
+        socket.on("data", (data) => {
+            for (const request of framer.push(data) as Message[]) {
+                this.requests.push(request);
+                const reply = new Reply(socket, request);
+                const handler = this.handlers[request.command];
+                if (!handler) {
+                    reply.unknownCommand();
+                    continue;
+                }
+                const response = handler(request, reply);
+                if (response) {
+                    reply.respond(response);
+                }
+            }
+        });
+        socket.on("end", () => {
+            if (!this.ignoreEnd) {
+                socket.end();
+            }
+        });
+        socket.on("close", () => {
+            this._sockets = this._sockets.filter((s) => s !== socket);
+        });
+    }
+}
+
+// Run as service command: announce the port of the mock service and wait until the client is gone
+if (require.main === module) {
+    console.log(`RText service, listening on port ${process.argv[2]}`);
+    const parent = process.ppid;
+    setInterval(() => {
+        try {
+            process.kill(parent, 0);
+        } catch {
+            process.exit(0);
+        }
+    }, 200);
+    process.stdin.on("end", () => process.exit(0));
+    process.stdin.resume();
+}
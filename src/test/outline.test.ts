@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+
+import * as outline from '../rtext/outline';
+
+type Tree = [string, Tree[]];
+
+// Elements as command and name, labels with their colon
+function tree(nodes: outline.OutlineNode[]): Tree[] {
+    return nodes.map((node) => {
+        const text = node.kind === outline.OutlineKind.Label ? `${node.command}:` : [node.command, node.name].filter((t) => t).join(' ');
+        return [text, tree(node.children)];
+    });
+}
+
+function lines(node: outline.OutlineNode): [number, number] {
+    return [node.span.startLine, node.span.endLine];
+}
+
+describe('outline', () => {
+    it('groups the elements of a label array below the label', () => {
+        const nodes = outline.parse([
+            'Module Main {',
+            '  types: [',
+            '    Type A',
+            '    Type B',
+            '  ]',
+            '}',
+        ]);
+        assert.deepStrictEqual(tree(nodes), [['Module Main', [['types:', [['Type A', []], ['Type B', []]]]]]]);
+        const label = nodes[0].children[0];
+        assert.deepStrictEqual(lines(label), [1, 4]);
+        assert.deepStrictEqual(label.selection, { startLine: 1, startColumn: 2, endLine: 1, endColumn: 7 });
+    });
+
+    it('applies a label on its own line to the next element', () => {
+        const nodes = outline.parse([
+            'Module Main {',
+            '  base:',
+            '  Type A',
+            '  Type B',
+            '}',
+        ]);
+        assert.deepStrictEqual(tree(nodes), [['Module Main', [['base:', [['Type A', []]]], ['Type B', []]]]]);
+    });
+
+    it('closes a labelled element with its label', () => {
+        const nodes = outline.parse([
+            'Module Main {',
+            '  base: Type A {',
+            '    Type C',
+            '  }',
+            '  other: Type B',
+            '}',
+        ]);
+        assert.deepStrictEqual(tree(nodes), [['Module Main', [
+            ['base:', [['Type A', [['Type C', []]]]]],
+            ['other:', [['Type B', []]]],
+        ]]]);
+        const [base, other] = nodes[0].children;
+        assert.deepStrictEqual(lines(base), [1, 3]);
+        assert.deepStrictEqual(lines(base.children[0]), [1, 3]);
+        assert.deepStrictEqual(lines(other), [4, 4]);
+    });
+
+    it('joins continuation lines, the element is opened on the last one', () => {
+        const nodes = outline.parse([
+            'Module Main,',
+            '  desc: "a module" {',
+            '  # comment',
+            '  Type A, super: [',
+            '    /Main/B, /Main/C',
+            '  ]',
+            '  Type B \\',
+            '    , kind: abstract {',
+            '  }',
+            '}',
+        ]);
+        assert.deepStrictEqual(tree(nodes), [['Module Main', [['Type A', []], ['Type B', []]]]]);
+        assert.deepStrictEqual(lines(nodes[0]), [0, 9]);
+        assert.deepStrictEqual(lines(nodes[0].children[0]), [3, 5]);
+        assert.deepStrictEqual(lines(nodes[0].children[1]), [6, 8]);
+    });
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver/node';
+
+import * as outline from '../rtext/outline';
+import * as rename from '../rename';
+
+const model = [
+    'Package A {',
+    '  Package B {',
+    '    Type C',
+    '  }',
+    '}',
+];
+
+describe('rename', () => {
+    it('finds the qualified path of an element', () => {
+        const element = rename.elementAt(outline.parse(model), 1);
+        assert.deepStrictEqual(element?.path, ['A', 'B']);
+        assert.deepStrictEqual(rename.descendants(element!).map((e) => e.path), [['A', 'B', 'C']]);
+    });
+
+    it('rewrites the renamed segment of absolute and relative references', () => {
+        const lines = ['Ref r, to: /A/B/C, other: B/C, "/A/B/C", unrelated: /X/B/C'];
+        assert.deepStrictEqual(rename.referenceEdits(lines, 0, ['A', 'B', 'C'], 1, 'D'), [
+            lsp.TextEdit.replace(lsp.Range.create(0, 14, 0, 15), 'D'),
+            lsp.TextEdit.replace(lsp.Range.create(0, 26, 0, 27), 'D'),
+            lsp.TextEdit.replace(lsp.Range.create(0, 35, 0, 36), 'D'),
+        ]);
+    });
+
+    it('rewrites references on continuation lines', () => {
+        const lines = ['Ref r,', '  to: /A/B'];
+        assert.deepStrictEqual(rename.referenceEdits(lines, 0, ['A', 'B'], 1, 'D'), [
+            lsp.TextEdit.replace(lsp.Range.create(1, 9, 1, 10), 'D'),
+        ]);
+    });
+
+    it('accepts unquoted names only', () => {
+        assert.ok(rename.isValidName('Name_1'));
+        assert.ok(!rename.isValidName('1Name'));
+        assert.ok(!rename.isValidName('A/B'));
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+
+import { semanticTokens } from '../semanticTokens';
+
+function classify(lines: string[]): [string, string][] {
+    return semanticTokens(lines).map((t) => {
+        const text = lines[t.line].substring(t.start, t.start + t.length);
+        return [text, [t.type, ...t.modifiers].join('.')];
+    });
+}
+
+describe('semanticTokens', () => {
+    it('classifies commands, names and arguments', () => {
+        assert.deepStrictEqual(classify([
+            'Type Derived, super: /Main/Base, size: 4, ratio: 0.5, abstract: true, kind: struct, doc: "text"',
+        ]), [
+            ['Type', 'type'], ['Derived', 'variable.declaration'],
+            ['super:', 'parameter'], ['/Main/Base', 'variable'],
+            ['size:', 'parameter'], ['4', 'number'],
+            ['ratio:', 'parameter'], ['0.5', 'number'],
+            ['abstract:', 'parameter'], ['true', 'keyword'],
+            ['kind:', 'parameter'], ['struct', 'enumMember'],
+            ['doc:', 'parameter'], ['"text"', 'string'],
+        ]);
+    });
+
+    it('classifies comments, annotations and child labels', () => {
+        assert.deepStrictEqual(classify([
+            '# comment',
+            'Module Main {',
+            '  @file: a',
+            '  types: Type Base',
+            '  members: [',
+            '    Field f',
+            '  ]',
+            '}',
+        ]), [
+            ['# comment', 'comment'],
+            ['Module', 'type'], ['Main', 'variable.declaration'],
+            ['@file: a', 'decorator'],
+            ['types:', 'property'], ['Type', 'type'], ['Base', 'variable.declaration'],
+            ['members:', 'property'],
+            ['Field', 'type'], ['f', 'variable.declaration'],
+        ]);
+    });
+
+    it('treats continuation lines as arguments', () => {
+        assert.deepStrictEqual(classify([
+            'Type Derived,',
+            '  super: Base, \\',
+            '  refs: [',
+            '    /A,',
+            '    B',
+            '  ]',
+        ]), [
+            ['Type', 'type'], ['Derived', 'variable.declaration'],
+            ['super:', 'parameter'], ['Base', 'enumMember'],
+            ['refs:', 'parameter'],
+            ['/A', 'variable'],
+            ['B', 'enumMember'],
+        ]);
+    });
+});
@@ -0,0 +1,501 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import * as lsp from 'vscode-languageserver/node';
+
+import { startServer } from '../server';
+import { Client } from '../rtext/client';
+import { ServiceStatusNotification, ServiceStatusParams, ShowLogNotification } from '../notifications';
+import { Command, CommandResult } from '../commands';
+import { MockService } from './mockService';
+import { createWorkspace, removeWorkspace, waitFor } from './helpers';
+
+const model = [
+    'Module Main {',
+    '  Type Base',
+    '  Type Derived, super: /Main/Base',
+    '}',
+].join('\n');
+
+describe('server', function () {
+    this.timeout(10000);
+
+    let service: MockService;
+    let dir: string;
+    let client: lsp.ProtocolConnection;
+    let diagnostics: lsp.PublishDiagnosticsParams[];
+    let initializeResult: lsp.InitializeResult;
+    // statuses sent until the initialize response arrived and all statuses
+    let earlyStatuses: ServiceStatusParams[];
+    let statuses: ServiceStatusParams[];
+    let modelUri: string;
+
+    // Starts the server on an in-memory connection and initializes it
+    async function initialize(options: object = {}, capabilities: lsp.ClientCapabilities = {}): Promise<void> {
+        const toServer = new PassThrough();
+        const toClient = new PassThrough();
+        const connection = lsp.createConnection(new lsp.StreamMessageReader(toServer), new lsp.StreamMessageWriter(toClient));
+        startServer(connection);
+
+        client = lsp.createProtocolConnection(new lsp.StreamMessageReader(toClient), new lsp.StreamMessageWriter(toServer));
+        client.onRequest(lsp.WorkDoneProgressCreateRequest.type, () => null);
+        client.onNotification(lsp.PublishDiagnosticsNotification.type, (params) => diagnostics.push(params));
+        statuses = [];
+        client.onNotification(ServiceStatusNotification, (params) => statuses.push(params));
+        client.listen();
+
+        initializeResult = await client.sendRequest(lsp.InitializeRequest.type, {
+            processId: null,
+            rootUri: pathToFileURL(dir).toString(),
+            rootPath: dir,
+            capabilities,
+            initializationOptions: { id: 1, hoverProvider: true, ...options }
+        });
+        earlyStatuses = [...statuses];
+        await client.sendNotification(lsp.InitializedNotification.type, {});
+        await client.sendNotification(lsp.DidOpenTextDocumentNotification.type, {
+            textDocument: { uri: modelUri, languageId: 'rtext', version: 1, text: model }
+        });
+        // notifications have no response, a request makes sure the server processed them
+        await client.sendRequest(lsp.DocumentSymbolRequest.type, { textDocument: { uri: modelUri } });
+    }
+
+    beforeEach(async () => {
+        service = new MockService();
+        await service.listen();
+        dir = createWorkspace({
+            '.rtext': `*.mock:\n${service.command}\n`,
+            'model/main.mock': model,
+        });
+        modelUri = pathToFileURL(path.join(dir, 'model/main.mock')).toString();
+        diagnostics = [];
+    });
+
+    afterEach(async () => {
+        await client.sendRequest(lsp.ShutdownRequest.type);
+        client.dispose();
+        await service.close();
+        removeWorkspace(dir);
+    });
+
+    it('advertises its capabilities', async () => {
+        await initialize();
+        const capabilities = initializeResult.capabilities;
+        assert.strictEqual(capabilities.hoverProvider, true);
+        assert.strictEqual(capabilities.definitionProvider, true);
+        assert.strictEqual(capabilities.documentSymbolProvider, true);
+    });
+
+    it('does not advertise hover unless enabled', async () => {
+        await initialize({ hoverProvider: undefined });
+        assert.strictEqual(initializeResult.capabilities.hoverProvider, false);
+    });
+
+    it('publishes the problems of the loaded model', async () => {
+        service.on('load_model', () => ({
+            total_problems: 1,
+            problems: [{
+                file: path.join(dir, 'model/main.mock'),
+                problems: [{ message: "unresolved reference '/Main/Base'", severity: 3, line: 3 }]
+            }]
+        }));
+        await initialize();
+        await waitFor(() => diagnostics.length > 0);
+        assert.strictEqual(diagnostics[0].uri, modelUri);
+        assert.deepStrictEqual(diagnostics[0].diagnostics.map((d) => [d.code, d.range]), [
+            ['unresolved-reference', lsp.Range.create(2, 23, 2, 33)]
+        ]);
+    });
+
+    it('starts one service per config entry', async () => {
+        fs.writeFileSync(path.join(dir, '.rtext'), `*.mock, *.other:\n${service.command}\n`);
+        await initialize();
+        await waitFor(() => service.requestsOf('load_model').length > 0);
+        assert.strictEqual(service.connections, 1);
+        assert.strictEqual(service.requestsOf('load_model').length, 1);
+    });
+
+    it('publishes the errors of the .rtext file', async () => {
+        fs.writeFileSync(path.join(dir, '.rtext'), `# services\r\n*.mock:\r\n${service.command}\r\n\r\n*.other:\r\n`);
+        await initialize();
+        const configUri = pathToFileURL(path.join(dir, '.rtext')).toString();
+        await waitFor(() => diagnostics.some((d) => d.uri === configUri));
+        const published = diagnostics.find((d) => d.uri === configUri)!;
+        assert.deepStrictEqual(published.diagnostics.map((d) => [d.code, d.range]), [
+            ['missing-command', lsp.Range.create(4, 0, 4, 8)]
+        ]);
+        await waitFor(() => service.requestsOf('load_model').length > 0);
+    });
+
+    it('provides no model features for the .rtext file', async () => {
+        await initialize();
+        const configUri = pathToFileURL(path.join(dir, '.rtext')).toString();
+        await client.sendNotification(lsp.DidOpenTextDocumentNotification.type, {
+            textDocument: { uri: configUri, languageId: 'rtext', version: 1, text: `*.mock:\n${service.command}\n` }
+        });
+        const textDocument = { uri: configUri };
+        const position = lsp.Position.create(0, 2);
+        const options = { tabSize: 2, insertSpaces: true };
+        assert.deepStrictEqual(await client.sendRequest(lsp.SemanticTokensRequest.type, { textDocument }), { data: [] });
+        assert.deepStrictEqual(await client.sendRequest(lsp.SemanticTokensDeltaRequest.type, { textDocument, previousResultId: '1' }), { data: [] });
+        assert.strictEqual(await client.sendRequest(lsp.DocumentSymbolRequest.type, { textDocument }), null);
+        assert.strictEqual(await client.sendRequest(lsp.DocumentFormattingRequest.type, { textDocument, options }), null);
+        assert.strictEqual(await client.sendRequest(lsp.DocumentRangeFormattingRequest.type, {
+            textDocument, range: lsp.Range.create(0, 0, 1, 0), options
+        }), null);
+        assert.strictEqual(await client.sendRequest(lsp.DocumentOnTypeFormattingRequest.type, { textDocument, position, ch: '\n', options }), null);
+        assert.strictEqual(await client.sendRequest(lsp.DocumentLinkRequest.type, { textDocument }), null);
+        assert.strictEqual(await client.sendRequest(lsp.DefinitionRequest.type, { textDocument, position }), null);
+        assert.strictEqual(await client.sendRequest(lsp.ReferencesRequest.type, {
+            textDocument, position, context: { includeDeclaration: true }
+        }), null);
+        assert.strictEqual(service.requestsOf('link_targets').length, 0);
+    });
+
+    it('sends the context of the hovered element', async () => {
+        service.on('context_info', (request) => ({ desc: request.context.join('|') }));
+        await initialize();
+        const hover = await client.sendRequest(lsp.HoverRequest.type, {
+            textDocument: { uri: modelUri }, position: lsp.Position.create(2, 4)
+        });
+        assert.deepStrictEqual(hover, {
+            contents: { kind: lsp.MarkupKind.PlainText, value: 'Module Main {|  Type Derived, super: /Main/Base' },
+            range: lsp.Range.create(2, 2, 2, 6)
+        });
+        const request = service.requestsOf('context_info')[0];
+        assert.strictEqual(request.column, 5);
+    });
+
+    it('previews the targets of a hovered reference as Markdown', async () => {
+        service.on('context_info', () => ({ desc: 'super' }));
+        service.on('link_targets', () => ({
+            begin_column: 24, end_column: 33,
+            targets: [{ display: 'Base', file: path.join(dir, 'model/main.mock'), line: 2, desc: 'Type Base' }]
+        }));
+        await initialize({}, { textDocument: { hover: { contentFormat: [lsp.MarkupKind.Markdown] } } });
+        const hover = await client.sendRequest(lsp.HoverRequest.type, {
+            textDocument: { uri: modelUri }, position: lsp.Position.create(2, 25)
+        });
+        assert.deepStrictEqual(hover, {
+            contents: {
+                kind: lsp.MarkupKind.Markdown,
+                value: `super\n\n---\n\n- \`Base\` [model/main\\.mock:2](${modelUri}#L2) — Type Base`
+            },
+            range: lsp.Range.create(2, 23, 2, 33)
+        });
+    });
+
+    it('shows link targets for protocol 0 services', async () => {
+        service.on('version', (_request, reply) => reply.unknownCommand());
+        service.on('link_targets', () => ({
+            begin_column: 24, end_column: 33,
+            targets: [{ display: 'Base', file: path.join(dir, 'model/main.mock'), line: 2, desc: '' }]
+        }));
+        await initialize();
+        assert.strictEqual(initializeResult.capabilities.hoverProvider, true);
+        const hover = await client.sendRequest(lsp.HoverRequest.type, {
+            textDocument: { uri: modelUri }, position: lsp.Position.create(2, 25)
+        });
+        assert.deepStrictEqual(hover?.contents, { kind: lsp.MarkupKind.PlainText, value: 'Base (model/main.mock:2)' });
+        assert.strictEqual(service.requestsOf('context_info').length, 0);
+    });
+
+    it('maps link targets to definitions', async () => {
+        service.on('link_targets', () => ({
+            begin_column: 24, end_column: 33,
+            targets: [{ display: 'Base', file: path.join(dir, 'model/main.mock'), line: 2, desc: '' }]
+        }));
+        await initialize();
+        const links = await client.sendRequest(lsp.DefinitionRequest.type, {
+            textDocument: { uri: modelUri }, position: lsp.Position.create(2, 25)
+        }) as lsp.LocationLink[];
+        assert.deepStrictEqual(links, [{
+            targetUri: modelUri,
+            targetRange: lsp.Range.create(1, 0, 1, lsp.uinteger.MAX_VALUE),
+            targetSelectionRange: lsp.Range.create(1, 7, 1, 11),
+            originSelectionRange: lsp.Range.create(2, 23, 2, 33)
+        }]);
+    });
+
+    it('confirms document links with the service', async () => {
+        const file = path.join(dir, 'model/main.mock');
+        service.on('link_targets', () => ({
+            begin_column: 24, end_column: 33,
+            targets: [
+                { display: 'Type Base', file, line: 2, desc: 'A type' },
+                { display: 'Type Derived', file, line: 3, desc: '' }
+            ]
+        }));
+        await initialize();
+        const documentLinks = await client.sendRequest(lsp.DocumentLinkRequest.type, { textDocument: { uri: modelUri } });
+        assert.deepStrictEqual(service.requestsOf('link_targets').map((r) => r.column), [24]);
+        assert.deepStrictEqual(documentLinks, [{
+            range: lsp.Range.create(2, 23, 2, 33),
+            target: `${modelUri}#L2`,
+            tooltip: `2 targets:\nType Base — A type (${file}:2)\nType Derived (${file}:3)`
+        }]);
+    });
+
+    it('drops document link candidates which the service does not confirm', async () => {
+        const file = path.join(dir, 'model/main.mock');
+        // only the reference is known to the service, the enum value and the string are no links
+        service.on('link_targets', (request) => request.column === 20
+            ? { begin_column: 20, end_column: 29, targets: [{ display: 'Type Base', file, line: 2, desc: '' }] }
+            : { begin_column: 0, end_column: 0, targets: [] });
+        await initialize();
+        const otherUri = pathToFileURL(path.join(dir, 'model/other.mock')).toString();
+        await client.sendNotification(lsp.DidOpenTextDocumentNotification.type, {
+            textDocument: { uri: otherUri, languageId: 'rtext', version: 1, text: 'Type Other, super: /Main/Base, kind: abstract, desc: "a type"' }
+        });
+        const documentLinks = await client.sendRequest(lsp.DocumentLinkRequest.type, { textDocument: { uri: otherUri } });
+        assert.strictEqual(service.requestsOf('link_targets').length, 3);
+        assert.deepStrictEqual(documentLinks?.map((l) => [l.range, l.target]), [[lsp.Range.create(0, 19, 0, 29), `${modelUri}#L2`]]);
+    });
+
+    it('renames an element and the paths below it', async () => {
+        const file = path.join(dir, 'model/main.mock');
+        service.on('link_targets', (request) => {
+            const line = request.context[request.context.length - 1];
+            // Derived references Base
+            const targets = line.endsWith('Type Base') ? [{ display: 'Derived', file, line: 3, desc: '' }] : [];
+            return { begin_column: 1, end_column: 1, targets };
+        });
+        await initialize();
+        const prepared = await client.sendRequest(lsp.PrepareRenameRequest.type, {
+            textDocument: { uri: modelUri }, position: lsp.Position.create(0, 8)
+        });
+        assert.deepStrictEqual(prepared, { range: lsp.Range.create(0, 7, 0, 11), placeholder: 'Main' });
+        const edit = await client.sendRequest(lsp.RenameRequest.type, {
+            textDocument: { uri: modelUri }, position: lsp.Position.create(0, 8), newName: 'Root'
+        });
+        assert.deepStrictEqual(edit, {
+            changes: {
+                [modelUri]: [
+                    lsp.TextEdit.replace(lsp.Range.create(0, 7, 0, 11), 'Root'),
+                    lsp.TextEdit.replace(lsp.Range.create(2, 24, 2, 28), 'Root')
+                ]
+            }
+        });
+    });
+
+    it('rejects renames to an existing element', async () => {
+        service.on('find_elements', () => ({
+            total_elements: 1,
+            elements: [{ display: 'Derived', file: path.join(dir, 'model/main.mock'), line: 3, desc: '' }]
+        }));
+        await initialize();
+        await assert.rejects(client.sendRequest(lsp.RenameRequest.type, {
+            textDocument: { uri: modelUri }, position: lsp.Position.create(1, 8), newName: 'Derived'
+        }), (error: lsp.ResponseError<void>) => error.code === lsp.ErrorCodes.InvalidParams && /\/Main\/Derived/.test(error.message));
+    });
+
+    it('maps completion options to snippets', async () => {
+        service.on('content_complete', () => ({
+            options: [{ display: 'Type', insert: 'Type |1|name|The name|', desc: 'A type' }]
+        }));
+        await initialize();
+        const items = await client.sendRequest(lsp.CompletionRequest.type, {
+            textDocument: { uri: modelUri }, position: lsp.Position.create(1, 4)
+        }) as lsp.CompletionItem[];
+        assert.strictEqual(items.length, 1);
+        assert.strictEqual(items[0].label, 'Type');
+        assert.strictEqual(items[0].kind, lsp.CompletionItemKind.Class);
+        assert.strictEqual(items[0].insertTextFormat, lsp.InsertTextFormat.Snippet);
+        assert.deepStrictEqual(items[0].textEdit, lsp.TextEdit.replace(lsp.Range.create(1, 2, 1, 6), 'Type ${1:name}'));
+        const resolved = await client.sendRequest(lsp.CompletionResolveRequest.type, items[0]);
+        assert.deepStrictEqual(resolved.documentation, { kind: lsp.MarkupKind.Markdown, value: 'A type\n\n- `name`: The name' });
+    });
+
+    it('merges the elements found by the services', async () => {
+        service.on('find_elements', (request) => ({
+            total_elements: 1,
+            elements: [{ display: `${request.search_pattern} [Type] - /Main/Base`, file: path.join(dir, 'model/main.mock'), line: 2, desc: '' }]
+        }));
+        await initialize();
+        await waitFor(() => service.requestsOf('load_model').length > 0);
+        const symbols = await client.sendRequest(lsp.WorkspaceSymbolRequest.type, { query: 'Base' }) as lsp.WorkspaceSymbol[];
+        assert.deepStrictEqual(symbols.map((s) => [s.name, s.kind, s.containerName, s.location]), [
+            ['Base', lsp.SymbolKind.Class, '/Main', { uri: modelUri, range: lsp.Range.create(1, 7, 1, 11) }]
+        ]);
+    });
+
+    it('resolves the ranges of workspace symbols lazily', async () => {
+        service.on('find_elements', () => ({
+            total_elements: 3,
+            elements: [{ display: 'Base', file: path.join(dir, 'model/main.mock'), line: 2, desc: '' }]
+        }));
+        const messages: lsp.ShowMessageRequestParams[] = [];
+        await initialize({}, { workspace: { symbol: { resolveSupport: { properties: ['location.range'] } } } });
+        client.onRequest(lsp.ShowMessageRequest.type, (params) => {
+            messages.push(params);
+            return null;
+        });
+        await waitFor(() => service.requestsOf('load_model').length > 0);
+        const [symbol] = await client.sendRequest(lsp.WorkspaceSymbolRequest.type, { query: 'Base' }) as lsp.WorkspaceSymbol[];
+        assert.deepStrictEqual(symbol.location, { uri: modelUri });
+        const resolved = await client.sendRequest(lsp.WorkspaceSymbolResolveRequest.type, symbol);
+        assert.deepStrictEqual(resolved.location, { uri: modelUri, range: lsp.Range.create(1, 7, 1, 11) });
+        await waitFor(() => messages.length > 0);
+        assert.strictEqual(messages[0].message, "Found 3 elements for 'Base', only 1 of them are shown.");
+    });
+
+    it('reports workspace symbols as partial results', async () => {
+        service.on('find_elements', () => ({
+            total_elements: 1,
+            elements: [{ display: 'Base', file: path.join(dir, 'model/main.mock'), line: 2, desc: '' }]
+        }));
+        await initialize();
+        await waitFor(() => service.requestsOf('load_model').length > 0);
+        const partial: lsp.WorkspaceSymbol[][] = [];
+        client.onProgress(lsp.WorkspaceSymbolRequest.type, 'partial', (value) => partial.push(value as lsp.WorkspaceSymbol[]));
+        const symbols = await client.sendRequest(lsp.WorkspaceSymbolRequest.type, { query: 'Base', partialResultToken: 'partial' });
+        assert.deepStrictEqual(symbols, []);
+        assert.deepStrictEqual(partial.map((p) => p.map((s) => s.name)), [['Base']]);
+    });
+
+    it('rejects requests with unknown commands', async () => {
+        service.on('context_info', (_request, reply) => reply.unknownCommand());
+        await initialize();
+        await assert.rejects(client.sendRequest(lsp.HoverRequest.type, {
+            textDocument: { uri: modelUri }, position: lsp.Position.create(1, 4)
+        }), (error: lsp.ResponseError<void>) => error.code === lsp.ErrorCodes.MethodNotFound);
+    });
+
+    it('builds the outline of a document', async () => {
+        await initialize();
+        const symbols = await client.sendRequest(lsp.DocumentSymbolRequest.type, {
+            textDocument: { uri: modelUri }
+        }) as lsp.DocumentSymbol[];
+        assert.deepStrictEqual(symbols.map((s) => [s.name, s.children?.map((c) => c.name)]), [['Main', ['Base', 'Derived']]]);
+    });
+
+    it('provides semantic tokens and their changes', async () => {
+        await initialize();
+        const full = await client.sendRequest(lsp.SemanticTokensRequest.type, { textDocument: { uri: modelUri } }) as lsp.SemanticTokens;
+        assert.strictEqual(full.data.length, 8 * 5);
+        assert.ok(full.resultId);
+        await client.sendNotification(lsp.DidChangeTextDocumentNotification.type, {
+            textDocument: { uri: modelUri, version: 2 },
+            contentChanges: [{ text: model.replace('Type Base', 'Type Base2') }]
+        });
+        const delta = await client.sendRequest(lsp.SemanticTokensDeltaRequest.type, {
+            textDocument: { uri: modelUri }, previousResultId: full.resultId as string
+        }) as lsp.SemanticTokensDelta;
+        // only the length of the element name changed
+        assert.deepStrictEqual(delta.edits, [{ start: 17, deleteCount: 1, data: [5] }]);
+    });
+
+    it('notifies the statuses of the services started during initialization once initialized', async () => {
+        await initialize();
+        await waitFor(() => statuses.length === 2);
+        assert.deepStrictEqual(earlyStatuses, []);
+        assert.deepStrictEqual(statuses.map((s) => s.state), ['starting', 'running']);
+    });
+
+    it('reloads the model after the service reconnected', async () => {
+        const reconnectDelay = Client.reconnectDelay;
+        Client.reconnectDelay = 10;
+        try {
+            await initialize();
+            await waitFor(() => service.requestsOf('load_model').length === 1 && statuses.length === 2);
+            service.dropConnections();
+            await waitFor(() => service.requestsOf('load_model').length === 2 && statuses.length === 5);
+            const changed = statuses.slice(2);
+            assert.deepStrictEqual(changed.map((s) => s.state), ['reconnecting', 'starting', 'running']);
+            assert.strictEqual(changed[0].configFile, path.join(dir, '.rtext'));
+        } finally {
+            Client.reconnectDelay = reconnectDelay;
+        }
+    });
+
+    it('restarts the services when the .rtext file changes', async () => {
+        await initialize();
+        await waitFor(() => service.requestsOf('load_model').length === 1 && statuses.length === 2);
+        const configFile = path.join(dir, '.rtext');
+        fs.writeFileSync(configFile, `# changed\n*.mock:\n${service.command}\n`);
+        await client.sendNotification(lsp.DidChangeWatchedFilesNotification.type, {
+            changes: [{ uri: pathToFileURL(configFile).toString(), type: lsp.FileChangeType.Changed }]
+        });
+        await waitFor(() => service.requestsOf('load_model').length === 2 && statuses.length === 5);
+        assert.strictEqual(service.requestsOf('stop').length, 1);
+        assert.deepStrictEqual(statuses.slice(2).map((s) => s.state), ['stopped', 'starting', 'running']);
+    });
+
+    it('clears the problems of files without a service when the .rtext file is deleted', async () => {
+        service.on('load_model', () => ({
+            total_problems: 1,
+            problems: [{
+                file: path.join(dir, 'model/main.mock'),
+                problems: [{ message: "unresolved reference '/Main/Base'", severity: 3, line: 3 }]
+            }]
+        }));
+        await initialize();
+        await waitFor(() => diagnostics.length === 1);
+        const configFile = path.join(dir, '.rtext');
+        fs.rmSync(configFile);
+        await client.sendNotification(lsp.DidChangeWatchedFilesNotification.type, {
+            changes: [{ uri: pathToFileURL(configFile).toString(), type: lsp.FileChangeType.Deleted }]
+        });
+        await waitFor(() => diagnostics.length === 2);
+        assert.deepStrictEqual(diagnostics[1], { uri: modelUri, diagnostics: [] });
+        assert.strictEqual(service.requestsOf('stop').length, 1);
+    });
+
+    it('shows why a service failed to start and offers the log', async () => {
+        const messages: lsp.ShowMessageRequestParams[] = [];
+        let logShown = false;
+        await initialize();
+        client.onRequest(lsp.ShowMessageRequest.type, (params) => {
+            messages.push(params);
+            return params.actions?.[0] ?? null;
+        });
+        client.onNotification(ShowLogNotification, () => { logShown = true; });
+        const configFile = path.join(dir, '.rtext');
+        fs.writeFileSync(configFile, `*.mock:\nnode -e "console.error('no license'); process.exit(2)"\n`);
+        await client.sendNotification(lsp.DidChangeWatchedFilesNotification.type, {
+            changes: [{ uri: pathToFileURL(configFile).toString(), type: lsp.FileChangeType.Changed }]
+        });
+        await waitFor(() => logShown);
+        assert.strictEqual(messages.length, 1);
+        assert.strictEqual(messages[0].type, lsp.MessageType.Error);
+        assert.match(messages[0].message, /exited with code 2 before reporting its port/);
+    });
+
+    it('executes service commands per config file', async () => {
+        await initialize();
+        client.onRequest(lsp.ShowMessageRequest.type, () => null);
+        await waitFor(() => service.requestsOf('load_model').length === 1);
+        const configFile = path.join(dir, '.rtext');
+
+        const version = await client.sendRequest(lsp.ExecuteCommandRequest.type, {
+            command: Command.ShowVersion, arguments: [{ configFile }]
+        }) as CommandResult;
+        assert.deepStrictEqual(version.services, [{ configFile, command: service.command, protocolVersion: 1, serviceVersion: 1 }]);
+
+        service.on('load_model', () => ({ total_problems: 0, problems: [] }));
+        const reload = await client.sendRequest(lsp.ExecuteCommandRequest.type, { command: Command.ReloadModel }) as CommandResult;
+        assert.strictEqual(reload.services[0].totalProblems, 0);
+        assert.strictEqual(service.requestsOf('load_model').length, 2);
+
+        await client.sendRequest(lsp.ExecuteCommandRequest.type, { command: Command.StopService, arguments: [{ uri: modelUri }] });
+        assert.strictEqual(service.requestsOf('stop').length, 1);
+    });
+
+    it('reports failing service commands', async () => {
+        service.on('load_model', (_request, reply) => reply.unknownCommand());
+        await initialize();
+        const result = await client.sendRequest(lsp.ExecuteCommandRequest.type, { command: Command.ReloadModel }) as CommandResult;
+        assert.match(result.services[0].error ?? JSON.stringify(result), /doesn't support command load_model/);
+        await assert.rejects(client.sendRequest(lsp.ExecuteCommandRequest.type, { command: 'rtext.unknown' }),
+            (error: lsp.ResponseError<void>) => error.code === lsp.ErrorCodes.InvalidParams);
+    });
+
+    it('stops the services on shutdown', async () => {
+        await initialize();
+        await waitFor(() => service.connections === 1);
+        await client.sendRequest(lsp.ShutdownRequest.type);
+        assert.strictEqual(service.requestsOf('stop').length, 1);
+    });
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import * as lsp from 'vscode-languageserver/node';
+
+import * as symbols from '../symbols';
+
+describe('symbols', () => {
+    it('splits the display text of found elements', () => {
+        assert.deepStrictEqual(symbols.parseElementDisplay('Base [Type] - /Main/Base'), {
+            name: 'Base', className: 'Type', containerName: '/Main'
+        });
+        assert.deepStrictEqual(symbols.parseElementDisplay('/Main/Sub/Base'), {
+            name: 'Base', className: undefined, containerName: '/Main/Sub'
+        });
+        assert.deepStrictEqual(symbols.parseElementDisplay('Base'), {
+            name: 'Base', className: undefined, containerName: undefined
+        });
+    });
+
+    it('derives the kind from the class or the description', () => {
+        assert.strictEqual(symbols.symbolKindForElement({ name: 'a', className: 'Interface' }), lsp.SymbolKind.Interface);
+        assert.strictEqual(symbols.symbolKindForElement({ name: 'a' }, 'Enum literal'), lsp.SymbolKind.Enum);
+        assert.strictEqual(symbols.symbolKindForElement({ name: 'a' }), lsp.SymbolKind.Object);
+    });
+
+    it('tells if found elements were truncated', () => {
+        const elements = [{ display: 'a', file: 'f', line: 1, desc: '' }];
+        assert.strictEqual(symbols.truncationMessage({ total_elements: 1, elements }, 'a'), undefined);
+        assert.match(symbols.truncationMessage({ total_elements: -1, elements }, 'a')!, /truncated/);
+    });
+});